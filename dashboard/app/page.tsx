@@ -12,10 +12,11 @@ interface Balances {
   aavePercent: number;
 }
 
+// Money fields are exact decimal strings (e.g. "0.0126") — parse only for display
 interface PnL {
-  revenue: number;
-  costs: number;
-  profit: number;
+  revenue: string;
+  costs: string;
+  profit: string;
   selfSustaining: boolean;
   ratio: number;
 }
@@ -36,18 +37,25 @@ interface Action {
   type: string;
   description: string;
   tx_hash: string | null;
-  amount_usdc: number;
+  amount: string;
+  asset: "USDC" | "ETH" | null;
   success: number;
 }
 
 interface Revenue {
-  total: number;
-  bySource: Array<{ source: string; total: number }>;
+  total: string;
+  bySource: Array<{ source: string; total: string }>;
 }
 
 interface Costs {
-  total: number;
-  byCategory: Array<{ category: string; total: number }>;
+  total: string;
+  byCategory: Array<{ category: string; total: string }>;
+}
+
+interface ApiHistoryPoint {
+  timestamp: string;
+  cumulative_revenue: string;
+  cumulative_costs: string;
 }
 
 interface HistoryPoint {
@@ -146,8 +154,8 @@ function SustainabilityGauge({ score, pnl, loading }: { score: number; pnl: PnL
           </span>
         </div>
         {pnl && (
-          <span className="text-2xl font-mono font-bold" style={{ color: pnl.profit >= 0 ? "var(--green)" : "var(--red)" }}>
-            {pnl.profit >= 0 ? "+" : ""}${pnl.profit.toFixed(4)}
+          <span className="text-2xl font-mono font-bold" style={{ color: Number(pnl.profit) >= 0 ? "var(--green)" : "var(--red)" }}>
+            {Number(pnl.profit) >= 0 ? "+" : ""}${Number(pnl.profit).toFixed(4)}
           </span>
         )}
       </div>
@@ -158,8 +166,8 @@ function SustainabilityGauge({ score, pnl, loading }: { score: number; pnl: PnL
         />
       </div>
       <div className="flex justify-between mt-1 text-xs text-[var(--text-dim)]">
-        <span>Revenue: ${pnl?.revenue.toFixed(4) ?? "0"}</span>
-        <span>Costs: ${pnl?.costs.toFixed(4) ?? "0"}</span>
+        <span>Revenue: ${pnl ? Number(pnl.revenue).toFixed(4) : "0"}</span>
+        <span>Costs: ${pnl ? Number(pnl.costs).toFixed(4) : "0"}</span>
       </div>
     </div>
   );
@@ -439,9 +447,17 @@ export default function Dashboard() {
   const { data: revenue } = useFetch<Revenue>("/api/revenue");
   const { data: costs } = useFetch<Costs>("/api/costs");
   const { data: actionsData, loading: actionsLoading } = useFetch<{ actions: Action[] }>("/api/actions?limit=200");
-  const { data: historyData } = useFetch<{ history: HistoryPoint[] }>("/api/history", 30000);
+  const { data: historyData } = useFetch<{ history: ApiHistoryPoint[] }>("/api/history", 30000);
 
   const actions = actionsData?.actions ?? [];
+  const history = useMemo<HistoryPoint[]>(
+    () => (historyData?.history ?? []).map((h) => ({
+      timestamp: h.timestamp,
+      cumulative_revenue: Number(h.cumulative_revenue),
+      cumulative_costs: Number(h.cumulative_costs),
+    })),
+    [historyData],
+  );
   const explorerUrl = status?.explorerUrl ?? "https://basescan.org";
 
   return (
@@ -497,7 +513,7 @@ export default function Dashboard() {
 
       {/* Revenue vs Costs chart */}
       <Card title="Revenue vs Costs Over Time" className="mb-6">
-        <FinancialChart history={historyData?.history ?? []} />
+        <FinancialChart history={history} />
       </Card>
 
       {/* Balance + Revenue + Costs row */}
@@ -521,7 +537,7 @@ export default function Dashboard() {
         <Card title="Revenue Streams">
           <Metric
             label="Total Revenue"
-            value={`$${pnl?.revenue.toFixed(4) ?? "0.0000"}`}
+            value={`$${pnl ? Number(pnl.revenue).toFixed(4) : "0.0000"}`}
             color="text-[var(--green)]"
             loading={pnlLoading}
           />
@@ -529,7 +545,7 @@ export default function Dashboard() {
             {revenue?.bySource.map((s) => (
               <div key={s.source} className="flex justify-between text-xs">
                 <span className="text-[var(--text-dim)]">{SOURCE_LABELS[s.source] ?? s.source}</span>
-                <span className="font-mono text-[var(--green)]">${s.total.toFixed(4)}</span>
+                <span className="font-mono text-[var(--green)]">${Number(s.total).toFixed(4)}</span>
               </div>
             ))}
             {(!revenue?.bySource.length) && (
@@ -541,7 +557,7 @@ export default function Dashboard() {
         <Card title="Operating Costs">
           <Metric
             label="Total Costs"
-            value={`$${pnl?.costs.toFixed(4) ?? "0.0000"}`}
+            value={`$${pnl ? Number(pnl.costs).toFixed(4) : "0.0000"}`}
             color="text-[var(--red)]"
             loading={pnlLoading}
           />
@@ -549,7 +565,7 @@ export default function Dashboard() {
             {costs?.byCategory.map((c) => (
               <div key={c.category} className="flex justify-between text-xs">
                 <span className="text-[var(--text-dim)]">{COST_LABELS[c.category] ?? c.category}</span>
-                <span className="font-mono text-[var(--red)]">${c.total.toFixed(4)}</span>
+                <span className="font-mono text-[var(--red)]">${Number(c.total).toFixed(4)}</span>
               </div>
             ))}
             {(!costs?.byCategory.length) && (
@@ -636,8 +652,10 @@ export default function Dashboard() {
                       : a.description}
                   </div>
                 </div>
-                {a.amount_usdc > 0 && (
-                  <span className="font-mono text-[var(--green)] flex-shrink-0">${a.amount_usdc.toFixed(4)}</span>
+                {Number(a.amount) > 0 && (
+                  <span className="font-mono text-[var(--green)] flex-shrink-0">
+                    {a.asset === "ETH" ? `${Number(a.amount).toFixed(6)} ETH` : `$${Number(a.amount).toFixed(4)}`}
+                  </span>
                 )}
               </div>
             ))}
@@ -1,8 +1,11 @@
 import { encodeFunctionData, type Address, formatUnits, type Hash } from "viem";
-import { publicClient, agentAddress, walletClient, account, chain, sendTransaction } from "../agent/wallet.js";
+import { publicClient, agentAddress } from "../agent/wallet.js";
+import { sendTransaction } from "../agent/tx-manager.js";
 import { config } from "../config.js";
+import { erc20Abi, ensureAllowance } from "./erc20.js";
+import type { YieldVenue } from "./yield-venue.js";
 
-// Aave V3 Pool ABI (supply + withdraw only)
+// Aave V3 Pool ABI (supply + withdraw + reserve reads)
 const aavePoolAbi = [
   {
     name: "supply",
@@ -27,66 +30,57 @@ const aavePoolAbi = [
     ],
     outputs: [{ name: "", type: "uint256" }],
   },
-] as const;
-
-const erc20Abi = [
   {
-    name: "approve",
+    name: "getReserveData",
     type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "spender", type: "address" },
-      { name: "amount", type: "uint256" },
+    stateMutability: "view",
+    inputs: [{ name: "asset", type: "address" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "configuration", type: "tuple", components: [{ name: "data", type: "uint256" }] },
+          { name: "liquidityIndex", type: "uint128" },
+          { name: "currentLiquidityRate", type: "uint128" },
+          { name: "variableBorrowIndex", type: "uint128" },
+          { name: "currentVariableBorrowRate", type: "uint128" },
+          { name: "currentStableBorrowRate", type: "uint128" },
+          { name: "lastUpdateTimestamp", type: "uint40" },
+          { name: "id", type: "uint16" },
+          { name: "aTokenAddress", type: "address" },
+          { name: "stableDebtTokenAddress", type: "address" },
+          { name: "variableDebtTokenAddress", type: "address" },
+          { name: "interestRateStrategyAddress", type: "address" },
+          { name: "accruedToTreasury", type: "uint128" },
+          { name: "unbacked", type: "uint128" },
+          { name: "isolationModeTotalDebt", type: "uint128" },
+        ],
+      },
     ],
-    outputs: [{ name: "", type: "bool" }],
   },
   {
-    name: "allowance",
+    name: "getReserveNormalizedIncome",
     type: "function",
     stateMutability: "view",
-    inputs: [
-      { name: "owner", type: "address" },
-      { name: "spender", type: "address" },
-    ],
+    inputs: [{ name: "asset", type: "address" }],
     outputs: [{ name: "", type: "uint256" }],
   },
 ] as const;
 
-/** Approve Aave USDC spending for Aave pool if needed.
- * Uses walletClient directly (no builder code) — approve is a prerequisite, not an agent action. */
-async function ensureApproval(amount: bigint): Promise<void> {
-  const allowance = (await publicClient.readContract({
-    address: config.aaveUsdc,
-    abi: erc20Abi,
-    functionName: "allowance",
-    args: [agentAddress, config.aavePool],
-  })) as bigint;
-
-  if (allowance < amount) {
-    // Approve max to avoid repeated approvals
-    const approveAmount = 2n ** 128n - 1n;
-    const data = encodeFunctionData({
-      abi: erc20Abi,
-      functionName: "approve",
-      args: [config.aavePool, approveAmount],
-    });
-    const hash = await walletClient.sendTransaction({
-      account,
-      chain,
-      to: config.aaveUsdc,
-      data,
-    });
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
-    if (receipt.status === "reverted") {
-      throw new Error(`USDC approval ${hash} reverted on-chain`);
-    }
-    console.log(`[aave] Approved USDC for Aave pool`);
-  }
-}
+const aTokenAbi = [
+  {
+    name: "scaledBalanceOf",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "user", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+] as const;
 
 /** Supply USDC to Aave V3 to earn yield (uses Aave's USDC, not Proofwell's MockUSDC) */
 export async function supplyUsdc(amount: bigint): Promise<string> {
-  await ensureApproval(amount);
+  await ensureAllowance(config.aaveUsdc, config.aavePool, amount, "USDC approval");
 
   const data = encodeFunctionData({
     abi: aavePoolAbi,
@@ -94,7 +88,7 @@ export async function supplyUsdc(amount: bigint): Promise<string> {
     args: [config.aaveUsdc, amount, agentAddress, 0],
   });
 
-  const hash = await sendTransaction({ to: config.aavePool, data });
+  const { transactionHash: hash } = await sendTransaction({ to: config.aavePool, data, label: "Aave supply" });
   console.log(`[aave] Supplied ${formatUnits(amount, 6)} USDC → Aave V3`);
   return hash;
 }
@@ -107,7 +101,7 @@ export async function withdrawUsdc(amount: bigint): Promise<string> {
     args: [config.aaveUsdc, amount, agentAddress],
   });
 
-  const hash = await sendTransaction({ to: config.aavePool, data });
+  const { transactionHash: hash } = await sendTransaction({ to: config.aavePool, data, label: "Aave withdraw" });
   console.log(`[aave] Withdrew ${formatUnits(amount, 6)} USDC from Aave V3`);
   return hash;
 }
@@ -135,3 +129,151 @@ export async function getAavePosition(): Promise<bigint> {
     args: [agentAddress],
   }) as Promise<bigint>;
 }
+
+/** Reserve liquidity index including interest accrued since the last update (ray, 1e27).
+ *  aToken balance = scaled balance × this index. */
+export async function getReserveNormalizedIncome(): Promise<bigint> {
+  return publicClient.readContract({
+    address: config.aavePool,
+    abi: aavePoolAbi,
+    functionName: "getReserveNormalizedIncome",
+    args: [config.aaveUsdc],
+  }) as Promise<bigint>;
+}
+
+/** aUSDC balance divided by the liquidity index at deposit time — only changes on deposit/withdraw */
+export async function getScaledBalance(): Promise<bigint> {
+  return publicClient.readContract({
+    address: config.aBasUSDC,
+    abi: aTokenAbi,
+    functionName: "scaledBalanceOf",
+    args: [agentAddress],
+  }) as Promise<bigint>;
+}
+
+const RAY = 10n ** 27n;
+const SECONDS_PER_YEAR = 31_536_000;
+
+export interface AaveReserveStatus {
+  /** Supply APY as a fraction (0.045 = 4.5%), compounded per second from the liquidity rate */
+  supplyApy: number;
+  /** Share of supplied liquidity that is borrowed (0–1) */
+  utilization: number;
+  /** USDC held by the aToken — the most that can be withdrawn right now (base units) */
+  availableLiquidity: bigint;
+  totalSupplied: bigint;
+  totalBorrowed: bigint;
+  /** 0n when uncapped (base units) */
+  supplyCap: bigint;
+  borrowCap: bigint;
+  /** How much more can be supplied before hitting the cap, null when uncapped */
+  supplyHeadroom: bigint | null;
+  active: boolean;
+  frozen: boolean;
+  paused: boolean;
+}
+
+/** Read a single bit / bit range out of the ReserveConfiguration bitmap */
+function configBits(data: bigint, start: number, width: number): bigint {
+  return (data >> BigInt(start)) & ((1n << BigInt(width)) - 1n);
+}
+
+/** Live market data for the USDC reserve: APY, utilization, liquidity, caps and status flags */
+export async function getReserveStatus(): Promise<AaveReserveStatus> {
+  const reserve = await publicClient.readContract({
+    address: config.aavePool,
+    abi: aavePoolAbi,
+    functionName: "getReserveData",
+    args: [config.aaveUsdc],
+  });
+
+  const totalSupply = (address: Address) =>
+    publicClient.readContract({ address, abi: erc20Abi, functionName: "totalSupply" }) as Promise<bigint>;
+  // Stable debt was removed in Aave v3.2 — the stable debt token slot is empty
+  // or deprecated, so borrowing is the variable debt alone
+  const [aTokenSupply, totalBorrowed, availableLiquidity, normalizedIncome] = await Promise.all([
+    totalSupply(reserve.aTokenAddress),
+    totalSupply(reserve.variableDebtTokenAddress),
+    publicClient.readContract({
+      address: config.aaveUsdc,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [reserve.aTokenAddress],
+    }) as Promise<bigint>,
+    getReserveNormalizedIncome(),
+  ]);
+
+  // Bit layout from Aave's ReserveConfiguration library
+  const data = reserve.configuration.data;
+  const decimals = Number(configBits(data, 48, 8));
+  const unit = 10n ** BigInt(decimals);
+  const borrowCap = configBits(data, 80, 36) * unit;
+  const supplyCap = configBits(data, 116, 36) * unit;
+
+  // Supply-cap checks count treasury accruals not yet minted as aTokens
+  const totalSupplied = aTokenSupply + (reserve.accruedToTreasury * normalizedIncome + RAY / 2n) / RAY;
+  const rate = Number(reserve.currentLiquidityRate) / Number(RAY);
+
+  return {
+    supplyApy: Math.pow(1 + rate / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1,
+    utilization: totalBorrowed + availableLiquidity > 0n
+      ? Number(totalBorrowed) / Number(totalBorrowed + availableLiquidity)
+      : 0,
+    availableLiquidity,
+    totalSupplied,
+    totalBorrowed,
+    supplyCap,
+    borrowCap,
+    supplyHeadroom: supplyCap > 0n ? (supplyCap > totalSupplied ? supplyCap - totalSupplied : 0n) : null,
+    active: configBits(data, 56, 1) === 1n,
+    frozen: configBits(data, 57, 1) === 1n,
+    paused: configBits(data, 60, 1) === 1n,
+  };
+}
+
+/** Why supplying `amount` would revert, or null if it should go through */
+export function supplyBlockedReason(status: AaveReserveStatus, amount: bigint): string | null {
+  if (!status.active) return "reserve is not active";
+  if (status.paused) return "reserve is paused";
+  if (status.frozen) return "reserve is frozen";
+  if (status.supplyHeadroom !== null && amount > status.supplyHeadroom) {
+    return `supply cap reached (${formatUnits(status.supplyHeadroom, 6)} USDC headroom, ${formatUnits(amount, 6)} requested)`;
+  }
+  return null;
+}
+
+/** Why withdrawing `amount` would revert, or null if it should go through */
+export function withdrawBlockedReason(status: AaveReserveStatus, amount: bigint): string | null {
+  if (!status.active) return "reserve is not active";
+  if (status.paused) return "reserve is paused";
+  if (amount > status.availableLiquidity) {
+    return `only ${formatUnits(status.availableLiquidity, 6)} USDC of liquidity available, ${formatUnits(amount, 6)} requested`;
+  }
+  return null;
+}
+
+export const aaveVenue: YieldVenue = {
+  id: "aave",
+  name: "Aave V3",
+  actions: { deposit: "aave_supply", withdraw: "aave_withdraw" },
+  deposit: supplyUsdc,
+  withdraw: withdrawUsdc,
+  position: getAavePosition,
+  async apy() {
+    return (await getReserveStatus()).supplyApy;
+  },
+  async health() {
+    const [status, position] = await Promise.all([getReserveStatus(), getAavePosition()]);
+    return {
+      depositBlocked: supplyBlockedReason(status, 1n),
+      withdrawBlocked: withdrawBlockedReason(status, 0n),
+      maxDeposit: status.supplyHeadroom,
+      maxWithdraw: position < status.availableLiquidity ? position : status.availableLiquidity,
+      details: `utilization ${(status.utilization * 100).toFixed(1)}%, ${formatUnits(status.availableLiquidity, 6)} USDC liquidity`,
+    };
+  },
+  async snapshot() {
+    const [units, index] = await Promise.all([getScaledBalance(), getReserveNormalizedIncome()]);
+    return { units, index };
+  },
+};
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decodeAbiParameters, parseAbiParameters } from "viem";
+import type { Attestation } from "../api/x402-attestation.js";
+import { EAS_SCHEMA, encodeAttestationData } from "./eas-schema.js";
+
+const attestation: Attestation = {
+  wallet: "0x00000000000000000000000000000000000000A1",
+  isStaking: true,
+  totalStakes: 2,
+  stakeAmount: "25.5",
+  stakeAsset: "USDC",
+  stakeValueUsd: "25.5",
+  daysCompleted: 5,
+  totalDays: 12,
+  successRate: 0.8333,
+  disciplineScore: 83,
+  isActive: true,
+  timestamp: "2026-03-01T12:34:56.789Z",
+  source: "proofwell-agent",
+};
+
+describe("encodeAttestationData", () => {
+  it("round-trips through EAS_SCHEMA field for field", () => {
+    const decoded = decodeAbiParameters(parseAbiParameters(EAS_SCHEMA), encodeAttestationData(attestation));
+
+    assert.deepEqual(decoded, [
+      attestation.wallet,
+      true,
+      2,
+      "25.5",
+      "USDC",
+      "25.5",
+      5,
+      12,
+      8333,
+      83,
+      true,
+      BigInt(Date.parse("2026-03-01T12:34:56Z") / 1000),
+      "proofwell-agent",
+    ]);
+  });
+
+  it("encodes a missing USD value as an empty string", () => {
+    const decoded = decodeAbiParameters(parseAbiParameters(EAS_SCHEMA), encodeAttestationData({ ...attestation, stakeValueUsd: null }));
+
+    assert.equal(decoded[5], "");
+  });
+});
@@ -0,0 +1,41 @@
+import { encodeAbiParameters, encodePacked, keccak256, parseAbiParameters, zeroAddress, type Hex } from "viem";
+import type { Attestation } from "../api/x402-attestation.js";
+
+/**
+ * EAS schema for Proofwell discipline attestations
+ *
+ * Mirrors the `Attestation` served by the x402 endpoint field for field,
+ * with Solidity types: `successRate` becomes basis points, `timestamp` unix
+ * seconds, and a null `stakeValueUsd` an empty string. No resolver,
+ * revocable — superseded scores are revoked.
+ */
+
+export const EAS_SCHEMA =
+  "address wallet,bool isStaking,uint32 totalStakes,string stakeAmount,string stakeAsset,string stakeValueUsd," +
+  "uint32 daysCompleted,uint32 totalDays,uint16 successRateBps,uint8 disciplineScore,bool isActive,uint64 timestamp,string source";
+
+export const EAS_SCHEMA_RESOLVER = zeroAddress;
+export const EAS_SCHEMA_REVOCABLE = true;
+
+/** UID the SchemaRegistry assigns: keccak256(abi.encodePacked(schema, resolver, revocable)) */
+export const EAS_SCHEMA_UID: Hex = keccak256(
+  encodePacked(["string", "address", "bool"], [EAS_SCHEMA, EAS_SCHEMA_RESOLVER, EAS_SCHEMA_REVOCABLE]),
+);
+
+export function encodeAttestationData(a: Attestation): Hex {
+  return encodeAbiParameters(parseAbiParameters(EAS_SCHEMA), [
+    a.wallet,
+    a.isStaking,
+    a.totalStakes,
+    a.stakeAmount,
+    a.stakeAsset,
+    a.stakeValueUsd ?? "",
+    a.daysCompleted,
+    a.totalDays,
+    Math.round(a.successRate * 10_000),
+    a.disciplineScore,
+    a.isActive,
+    BigInt(Math.floor(Date.parse(a.timestamp) / 1000)),
+    a.source,
+  ]);
+}
@@ -0,0 +1,166 @@
+import { encodeFunctionData, isAddressEqual, parseEventLogs, zeroHash, type Hex } from "viem";
+import { publicClient } from "../agent/wallet.js";
+import { sendTransaction } from "../agent/tx-manager.js";
+import { config } from "../config.js";
+import type { Attestation } from "../api/x402-attestation.js";
+import {
+  EAS_SCHEMA,
+  EAS_SCHEMA_RESOLVER,
+  EAS_SCHEMA_REVOCABLE,
+  EAS_SCHEMA_UID,
+  encodeAttestationData,
+} from "./eas-schema.js";
+
+/**
+ * Ethereum Attestation Service writes
+ *
+ * The agent attests each staker's discipline score under the Proofwell
+ * schema (./eas-schema.ts), with the wallet as recipient, so contracts can
+ * read scores via `EAS.getAttestation(uid)`. A superseded score is revoked
+ * and its replacement points back to it through `refUID`.
+ */
+
+const attestationRequest = [
+  { name: "schema", type: "bytes32" },
+  {
+    name: "data",
+    type: "tuple",
+    components: [
+      { name: "recipient", type: "address" },
+      { name: "expirationTime", type: "uint64" },
+      { name: "revocable", type: "bool" },
+      { name: "refUID", type: "bytes32" },
+      { name: "data", type: "bytes" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+] as const;
+
+const revocationRequest = [
+  { name: "schema", type: "bytes32" },
+  {
+    name: "data",
+    type: "tuple",
+    components: [
+      { name: "uid", type: "bytes32" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+] as const;
+
+const easEventInputs = [
+  { name: "recipient", type: "address", indexed: true },
+  { name: "attester", type: "address", indexed: true },
+  { name: "uid", type: "bytes32", indexed: false },
+  { name: "schemaUID", type: "bytes32", indexed: true },
+] as const;
+
+const easAbi = [
+  {
+    name: "attest",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [{ name: "request", type: "tuple", components: attestationRequest }],
+    outputs: [{ name: "", type: "bytes32" }],
+  },
+  {
+    name: "revoke",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [{ name: "request", type: "tuple", components: revocationRequest }],
+    outputs: [],
+  },
+  { name: "Attested", type: "event", inputs: easEventInputs },
+  { name: "Revoked", type: "event", inputs: easEventInputs },
+] as const;
+
+const schemaRegistryAbi = [
+  {
+    name: "register",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "schema", type: "string" },
+      { name: "resolver", type: "address" },
+      { name: "revocable", type: "bool" },
+    ],
+    outputs: [{ name: "", type: "bytes32" }],
+  },
+  {
+    name: "getSchema",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "uid", type: "bytes32" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "uid", type: "bytes32" },
+          { name: "resolver", type: "address" },
+          { name: "revocable", type: "bool" },
+          { name: "schema", type: "string" },
+        ],
+      },
+    ],
+  },
+] as const;
+
+/** Whether the Proofwell schema exists in the SchemaRegistry */
+export async function isSchemaRegistered(): Promise<boolean> {
+  const record = await publicClient.readContract({
+    address: config.eas.schemaRegistry,
+    abi: schemaRegistryAbi,
+    functionName: "getSchema",
+    args: [EAS_SCHEMA_UID],
+  });
+  return record.uid !== zeroHash;
+}
+
+/** Register the Proofwell schema. Returns the tx hash; the UID is always EAS_SCHEMA_UID. */
+export async function registerSchema(): Promise<Hex> {
+  const data = encodeFunctionData({
+    abi: schemaRegistryAbi,
+    functionName: "register",
+    args: [EAS_SCHEMA, EAS_SCHEMA_RESOLVER, EAS_SCHEMA_REVOCABLE],
+  });
+  const receipt = await sendTransaction({ to: config.eas.schemaRegistry, data, label: "eas register schema" });
+  return receipt.transactionHash;
+}
+
+/** Attest a wallet's score, optionally referencing the attestation it supersedes */
+export async function attestScore(a: Attestation, refUID: Hex = zeroHash): Promise<{ uid: Hex; hash: Hex }> {
+  const data = encodeFunctionData({
+    abi: easAbi,
+    functionName: "attest",
+    args: [
+      {
+        schema: EAS_SCHEMA_UID,
+        data: {
+          recipient: a.wallet,
+          expirationTime: 0n,
+          revocable: EAS_SCHEMA_REVOCABLE,
+          refUID,
+          data: encodeAttestationData(a),
+          value: 0n,
+        },
+      },
+    ],
+  });
+  const receipt = await sendTransaction({ to: config.eas.address, data, label: "eas attest" });
+  const logs = receipt.logs.filter(log => isAddressEqual(log.address, config.eas.address));
+  const [attested] = parseEventLogs({ abi: easAbi, eventName: "Attested", logs });
+  if (!attested) throw new Error(`EAS attest ${receipt.transactionHash} emitted no Attested event`);
+  return { uid: attested.args.uid, hash: receipt.transactionHash };
+}
+
+/** Revoke an attestation the agent made. Returns the tx hash. */
+export async function revokeScore(uid: Hex): Promise<Hex> {
+  const data = encodeFunctionData({
+    abi: easAbi,
+    functionName: "revoke",
+    args: [{ schema: EAS_SCHEMA_UID, data: { uid, value: 0n } }],
+  });
+  const receipt = await sendTransaction({ to: config.eas.address, data, label: "eas revoke" });
+  return receipt.transactionHash;
+}
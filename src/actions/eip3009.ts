@@ -0,0 +1,155 @@
+import {
+  encodeFunctionData,
+  isAddressEqual,
+  parseEventLogs,
+  parseSignature,
+  type Address,
+  type Hex,
+  type TransactionReceipt,
+} from "viem";
+import { publicClient, multicallChunked } from "../agent/wallet.js";
+import { sendTransaction } from "../agent/tx-manager.js";
+import { config, type PaymentAsset } from "../config.js";
+
+/**
+ * EIP-3009 transfer authorizations on x402 payment tokens
+ *
+ * The payer signs a TransferWithAuthorization off-chain; the agent submits
+ * it and pays the gas. Each authorization carries a random 32-byte nonce the
+ * token marks as used, so a signature can be settled at most once.
+ */
+
+const eip3009Abi = [
+  {
+    name: "transferWithAuthorization",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "validAfter", type: "uint256" },
+      { name: "validBefore", type: "uint256" },
+      { name: "nonce", type: "bytes32" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "authorizationState",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "authorizer", type: "address" },
+      { name: "nonce", type: "bytes32" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+] as const;
+
+const eip3009Events = [
+  {
+    name: "AuthorizationUsed",
+    type: "event",
+    inputs: [
+      { name: "authorizer", type: "address", indexed: true },
+      { name: "nonce", type: "bytes32", indexed: true },
+    ],
+  },
+  {
+    name: "Transfer",
+    type: "event",
+    inputs: [
+      { name: "from", type: "address", indexed: true },
+      { name: "to", type: "address", indexed: true },
+      { name: "value", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+export interface TransferAuthorization {
+  from: Address;
+  to: Address;
+  value: bigint;
+  validAfter: bigint;
+  validBefore: bigint;
+  nonce: Hex;
+}
+
+export const transferAuthorizationTypes = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+} as const;
+
+/** EIP-712 domain of an x402 payment token */
+export function paymentTokenDomain(asset: PaymentAsset) {
+  return {
+    name: asset.name,
+    version: asset.version,
+    chainId: config.chain.id,
+    verifyingContract: asset.address,
+  } as const;
+}
+
+/** Whether the token has already consumed (or cancelled) this nonce */
+export async function isAuthorizationUsed(token: Address, from: Address, nonce: Hex): Promise<boolean> {
+  return publicClient.readContract({
+    address: token,
+    abi: eip3009Abi,
+    functionName: "authorizationState",
+    args: [from, nonce],
+  });
+}
+
+/** `authorizationState` for many authorizations, via Multicall3 */
+export async function getAuthorizationStates(auths: Array<{ token: Address; from: Address; nonce: Hex }>): Promise<boolean[]> {
+  return multicallChunked(
+    auths.map(a => ({ address: a.token, abi: eip3009Abi, functionName: "authorizationState", args: [a.from, a.nonce] })),
+  ) as Promise<boolean[]>;
+}
+
+/** Tx that consumed an authorization, from AuthorizationUsed logs in [fromBlock, latest] */
+export async function findAuthorizationUse(token: Address, from: Address, nonce: Hex, fromBlock: bigint): Promise<Hex | null> {
+  const logs = await publicClient.getLogs({
+    address: token,
+    event: eip3009Events[0],
+    args: { authorizer: from, nonce },
+    fromBlock,
+  });
+  return logs.length > 0 ? logs[logs.length - 1].transactionHash : null;
+}
+
+/**
+ * Whether a receipt shows this authorization being used and its full value
+ * moving from the payer to the recipient.
+ */
+export function receiptSettles(receipt: TransactionReceipt, token: Address, auth: TransferAuthorization): boolean {
+  const logs = receipt.logs.filter(log => isAddressEqual(log.address, token));
+  const events = parseEventLogs({ abi: eip3009Events, logs });
+  const used = events.some(
+    e => e.eventName === "AuthorizationUsed" && isAddressEqual(e.args.authorizer, auth.from) && e.args.nonce.toLowerCase() === auth.nonce.toLowerCase(),
+  );
+  const paid = events.some(
+    e => e.eventName === "Transfer" && isAddressEqual(e.args.from, auth.from) && isAddressEqual(e.args.to, auth.to) && e.args.value === auth.value,
+  );
+  return used && paid;
+}
+
+/** Submit a signed authorization. Throws if the tx reverts (e.g. nonce already used). */
+export async function settleAuthorization(token: Address, auth: TransferAuthorization, signature: Hex): Promise<TransactionReceipt> {
+  const { r, s, v, yParity } = parseSignature(signature);
+  const data = encodeFunctionData({
+    abi: eip3009Abi,
+    functionName: "transferWithAuthorization",
+    args: [auth.from, auth.to, auth.value, auth.validAfter, auth.validBefore, auth.nonce, Number(v ?? BigInt(yParity + 27)), r, s],
+  });
+  return sendTransaction({ to: token, data, label: "x402 settlement" });
+}
@@ -0,0 +1,89 @@
+import { encodeFunctionData, type Address, type Hex } from "viem";
+import { publicClient, agentAddress } from "../agent/wallet.js";
+import { sendTransaction } from "../agent/tx-manager.js";
+
+export const erc20Abi = [
+  {
+    name: "balanceOf",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "totalSupply",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "transfer",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "approve",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "allowance",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+] as const;
+
+export async function getTokenBalance(token: Address, owner: Address = agentAddress): Promise<bigint> {
+  return publicClient.readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [owner],
+  }) as Promise<bigint>;
+}
+
+/** Approve `spender` to pull `token` from the agent wallet if the allowance is short.
+ * Sent without builder code — approve is a prerequisite, not an agent action — but its gas is still tracked. */
+export async function ensureAllowance(token: Address, spender: Address, amount: bigint, label: string): Promise<void> {
+  const allowance = (await publicClient.readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [agentAddress, spender],
+  })) as bigint;
+
+  if (allowance < amount) {
+    // Approve max to avoid repeated approvals
+    const approveAmount = 2n ** 128n - 1n;
+    const data = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [spender, approveAmount],
+    });
+    await sendTransaction({ to: token, data, label, builderCode: false });
+    console.log(`[erc20] Approved ${token} for ${spender}`);
+  }
+}
+
+/** Send `amount` of `token` from the agent wallet. Returns the tx hash. */
+export async function transferToken(token: Address, to: Address, amount: bigint, label: string): Promise<Hex> {
+  const data = encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [to, amount] });
+  const receipt = await sendTransaction({ to: token, data, label });
+  return receipt.transactionHash;
+}
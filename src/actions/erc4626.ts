@@ -0,0 +1,185 @@
+import { encodeFunctionData, formatUnits, isAddressEqual, type Address } from "viem";
+import { publicClient, agentAddress } from "../agent/wallet.js";
+import { sendTransaction } from "../agent/tx-manager.js";
+import { getState, setState } from "../agent/state.js";
+import { config } from "../config.js";
+import { ensureAllowance, getTokenBalance } from "./erc20.js";
+import type { YieldVenue } from "./yield-venue.js";
+
+/**
+ * Generic ERC-4626 vault adapter
+ *
+ * Works with any vault whose underlying asset is the treasury USDC
+ * (`config.aaveUsdc`). ERC-4626 has no rate getter, so APY is measured from
+ * share-price growth between samples kept in the state table. Samples are
+ * only taken by the agent cycle (`sampleRate`), so reads can't move them.
+ */
+
+const vaultAbi = [
+  {
+    name: "asset",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "convertToAssets",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "shares", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "maxDeposit",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "receiver", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "maxWithdraw",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "deposit",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "assets", type: "uint256" },
+      { name: "receiver", type: "address" },
+    ],
+    outputs: [{ name: "shares", type: "uint256" }],
+  },
+  {
+    name: "withdraw",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "assets", type: "uint256" },
+      { name: "receiver", type: "address" },
+      { name: "owner", type: "address" },
+    ],
+    outputs: [{ name: "shares", type: "uint256" }],
+  },
+] as const;
+
+const RAY = 10n ** 27n;
+const SECONDS_PER_YEAR = 31_536_000;
+// maxDeposit returns uint256 max for "no limit"
+const UNLIMITED = 2n ** 255n;
+// Share-price samples are rolled forward once the newer one is this old,
+// so the APY is always measured over one to two windows
+const APY_WINDOW_MS = 24 * 3600 * 1000;
+const MIN_APY_SPAN_MS = 3600 * 1000;
+
+export interface Erc4626VaultConfig {
+  id: string;
+  address: Address;
+}
+
+interface PriceSample {
+  at: number;
+  index: bigint;
+}
+
+function readSample(key: string): PriceSample | null {
+  const raw = getState(key);
+  if (!raw) return null;
+  const [at, index] = raw.split(":");
+  return { at: parseInt(at), index: BigInt(index) };
+}
+
+function writeSample(key: string, sample: PriceSample) {
+  setState(key, `${sample.at}:${sample.index}`);
+}
+
+export function createErc4626Venue({ id, address }: Erc4626VaultConfig): YieldVenue {
+  const convertToAssets = (shares: bigint) =>
+    publicClient.readContract({ address, abi: vaultAbi, functionName: "convertToAssets", args: [shares] });
+
+  /** Assets per share, in ray — the vault's equivalent of Aave's liquidity index */
+  const shareIndex = () => convertToAssets(RAY);
+
+  let assetChecked = false;
+  async function assetMismatch(): Promise<string | null> {
+    if (assetChecked) return null;
+    const asset = await publicClient.readContract({ address, abi: vaultAbi, functionName: "asset" });
+    if (!isAddressEqual(asset, config.aaveUsdc)) return `vault asset ${asset} is not the treasury USDC`;
+    assetChecked = true;
+    return null;
+  }
+
+  const position = async () => convertToAssets(await getTokenBalance(address));
+  const prevKey = `vault_${id}_pps_prev`;
+  const lastKey = `vault_${id}_pps_last`;
+
+  return {
+    id,
+    name: `ERC-4626 ${id}`,
+    actions: { deposit: "vault_deposit", withdraw: "vault_withdraw" },
+
+    async deposit(amount) {
+      const mismatch = await assetMismatch();
+      if (mismatch) throw new Error(`${id}: ${mismatch}`);
+      await ensureAllowance(config.aaveUsdc, address, amount, `USDC approval (${id})`);
+      const data = encodeFunctionData({ abi: vaultAbi, functionName: "deposit", args: [amount, agentAddress] });
+      const { transactionHash: hash } = await sendTransaction({ to: address, data, label: `${id} deposit` });
+      console.log(`[vault] Deposited ${formatUnits(amount, 6)} USDC → ${id}`);
+      return hash;
+    },
+
+    async withdraw(amount) {
+      const data = encodeFunctionData({ abi: vaultAbi, functionName: "withdraw", args: [amount, agentAddress, agentAddress] });
+      const { transactionHash: hash } = await sendTransaction({ to: address, data, label: `${id} withdraw` });
+      console.log(`[vault] Withdrew ${formatUnits(amount, 6)} USDC from ${id}`);
+      return hash;
+    },
+
+    position,
+
+    async sampleRate() {
+      const now = { at: Date.now(), index: await shareIndex() };
+      const last = readSample(lastKey);
+      if (!last) {
+        writeSample(lastKey, now);
+      } else if (now.at - last.at >= APY_WINDOW_MS) {
+        writeSample(prevKey, last);
+        writeSample(lastKey, now);
+      }
+    },
+
+    async apy() {
+      const base = readSample(prevKey) ?? readSample(lastKey);
+      if (!base) return 0;
+      const now = { at: Date.now(), index: await shareIndex() };
+      const span = now.at - base.at;
+      if (span < MIN_APY_SPAN_MS || base.index === 0n) return 0;
+      const growth = Number((now.index * 1_000_000_000n) / base.index) / 1e9;
+      return Math.pow(growth, (SECONDS_PER_YEAR * 1000) / span) - 1;
+    },
+
+    async health() {
+      const mismatch = await assetMismatch();
+      const [maxDeposit, maxWithdraw] = await Promise.all([
+        publicClient.readContract({ address, abi: vaultAbi, functionName: "maxDeposit", args: [agentAddress] }),
+        publicClient.readContract({ address, abi: vaultAbi, functionName: "maxWithdraw", args: [agentAddress] }),
+      ]);
+      return {
+        depositBlocked: mismatch ?? (maxDeposit === 0n ? "vault is not accepting deposits" : null),
+        withdrawBlocked: mismatch,
+        maxDeposit: maxDeposit >= UNLIMITED ? null : maxDeposit,
+        maxWithdraw,
+        details: `vault ${address}`,
+      };
+    },
+
+    async snapshot() {
+      const [units, index] = await Promise.all([getTokenBalance(address), shareIndex()]);
+      return { units, index };
+    },
+  };
+}
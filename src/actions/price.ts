@@ -0,0 +1,96 @@
+import { formatUnits } from "viem";
+import { publicClient } from "../agent/wallet.js";
+import { getState, setState } from "../agent/state.js";
+import { config } from "../config.js";
+
+/**
+ * ETH/USD price from a Chainlink-style aggregator (`latestRoundData`).
+ *
+ * A round is rejected if it is older than `priceMaxAgeSeconds`, has a
+ * non-positive answer, or was carried over from an earlier round. The last
+ * accepted price is kept in the state table so gas costs can still be valued
+ * while the feed is unhealthy.
+ */
+
+const aggregatorAbi = [
+  {
+    name: "latestRoundData",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+  },
+  {
+    name: "decimals",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+] as const;
+
+const LAST_PRICE_KEY = "eth_usd_last_price";
+
+export class PriceUnavailable extends Error {
+  constructor(message: string) {
+    super(`ETH/USD price unavailable: ${message}`);
+    this.name = "PriceUnavailable";
+  }
+}
+
+export interface PriceQuote {
+  /** Micro-USD (6 decimals) per 1 ETH */
+  priceMicroUsd: bigint;
+  /** Unix seconds of the feed update */
+  updatedAt: number;
+}
+
+let feedDecimals: number | null = null;
+
+/** Current ETH/USD price. Throws PriceUnavailable if the feed is stale or invalid. */
+export async function getEthUsdPrice(): Promise<PriceQuote> {
+  feedDecimals ??= await publicClient.readContract({
+    address: config.ethUsdFeed,
+    abi: aggregatorAbi,
+    functionName: "decimals",
+  });
+  const [roundId, answer, , updatedAt, answeredInRound] = await publicClient.readContract({
+    address: config.ethUsdFeed,
+    abi: aggregatorAbi,
+    functionName: "latestRoundData",
+  });
+
+  if (answer <= 0n) throw new PriceUnavailable(`feed returned ${answer}`);
+  if (answeredInRound < roundId) throw new PriceUnavailable(`round ${roundId} carried over from ${answeredInRound}`);
+  const age = Math.floor(Date.now() / 1000) - Number(updatedAt);
+  if (updatedAt === 0n || age > config.priceMaxAgeSeconds) {
+    throw new PriceUnavailable(`last update ${age}s ago (max ${config.priceMaxAgeSeconds}s)`);
+  }
+
+  const quote = { priceMicroUsd: (answer * 1_000_000n) / 10n ** BigInt(feedDecimals), updatedAt: Number(updatedAt) };
+  setState(LAST_PRICE_KEY, `${quote.updatedAt}:${quote.priceMicroUsd}`);
+  return quote;
+}
+
+/** Last price accepted from the feed, for when a fresh one can't be had */
+export function getLastEthUsdPrice(): PriceQuote | null {
+  const raw = getState(LAST_PRICE_KEY);
+  if (!raw) return null;
+  const [updatedAt, price] = raw.split(":");
+  return { priceMicroUsd: BigInt(price), updatedAt: parseInt(updatedAt) };
+}
+
+/** Convert wei to micro-USDC at `quote` */
+export function weiToMicroUsd(wei: bigint, quote: PriceQuote): bigint {
+  return (wei * quote.priceMicroUsd) / 10n ** 18n;
+}
+
+export function formatUsdPrice(quote: PriceQuote): string {
+  return formatUnits(quote.priceMicroUsd, 6);
+}
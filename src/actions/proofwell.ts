@@ -1,5 +1,18 @@
-import { encodeFunctionData, type Address, formatUnits, formatEther, getAddress } from "viem";
-import { publicClient, agentAddress, sendTransaction } from "../agent/wallet.js";
+import {
+  encodeFunctionData,
+  parseEventLogs,
+  isAddressEqual,
+  getAddress,
+  formatUnits,
+  formatEther,
+  zeroAddress,
+  type Address,
+  type Hash,
+  type Hex,
+  type TransactionReceipt,
+} from "viem";
+import { publicClient, multicallChunked } from "../agent/wallet.js";
+import { sendTransaction } from "../agent/tx-manager.js";
 import { config } from "../config.js";
 
 // ProofwellStakingV3 ABI (relevant functions only)
@@ -144,25 +157,54 @@ const stakeEvents = [
   },
 ] as const;
 
-export const SECONDS_PER_DAY = 300;       // matches contract demo constants
-const RESOLUTION_BUFFER = 0;       // matches contract demo constants
-
-const KNOWN_STAKERS: Address[] = [
-  "0xc59e6289F42b8228DF2E8c88Bb33442e8B91B7d8",
-  "0x9B0382a220Ba69FD4464d96B1d1925d982e05791",
-  "0x997e69b16ddaD2BECF7e4CB98B5899d9a3Bb18E8",
-  "0xdB2517c475E160254c8af290BCeCaCbdd614AbeA",
-  "0x50168133548836cb6B9dA964feeCa49C9Fe412A6",
-  "0x08DF2e88f7db895642cAdB03CF3A0195223b6f95",
-  "0x0937Fe3867cB9363DB530754d0A34812656719Cc",
-  "0xF36bD547Ac77646AE6ba98c216E61d8A4d3120C8",
-  "0x3e2F5265a29Cf88cb3619283026A53555cDc29fa",
-  "0xd1454493d747B6fE6bF49c2a64cEb68d8259145A",
-  "0xAc4006412d33693Cb690ecDa5a4253583cdC40F1",
-  "0x385DBB4a23af0bF6d26a35f9B273716B78a0D143",
-  "0xAa067a1821b466488827f60F3Cfd6822144120c0",
-  "0x4e45B7a1D403E2d09b757c3FB909BA2cBCD59cF5",
-].map(a => getAddress(a));
+const transferEvent = {
+  name: "Transfer",
+  type: "event",
+  inputs: [
+    { name: "from", type: "address", indexed: true },
+    { name: "to", type: "address", indexed: true },
+    { name: "value", type: "uint256", indexed: false },
+  ],
+} as const;
+
+/**
+ * Supported ProofwellStaking versions, keyed by the contract's `version()`.
+ * The agent refuses to read or resolve stakes on anything not listed here —
+ * add an entry only once a deployed contract reporting that version has been
+ * checked against this file's ABI (verified source, or `cast call` on each
+ * function the spec uses). A refused version is shown in /api/status.
+ */
+interface ProofwellSpec {
+  /** Which getter returns a stake — `stakesV3` (flat outputs) or `getStakeV3` (struct) */
+  stakeReader: "stakesV3" | "getStakeV3";
+}
+
+const PROOFWELL_VERSIONS: Record<string, ProofwellSpec> = {
+  // The Base Sepolia demo proxy (0xF45DBE98b014cc8564291B052e8D98Bbe9C7651d),
+  // which this ABI was written against: `cast call <proxy> "version()(string)"
+  // --rpc-url https://sepolia.base.org`. Its day length and resolution buffer
+  // aren't public, so timing comes from config.
+  "3.0.0": { stakeReader: "stakesV3" },
+};
+
+export class UnsupportedProofwellVersion extends Error {
+  constructor(readonly version: string) {
+    super(`ProofwellStaking version "${version}" is not supported (known: ${Object.keys(PROOFWELL_VERSIONS).join(", ")})`);
+    this.name = "UnsupportedProofwellVersion";
+  }
+}
+
+/** Day length and resolution buffer, set per network in config */
+export interface ProofwellTiming {
+  secondsPerDay: bigint;
+  resolutionBuffer: bigint;
+}
+
+export interface ProofwellDeployment {
+  version: string;
+  spec: ProofwellSpec;
+  timing: ProofwellTiming;
+}
 
 export interface StakeInfo {
   user: Address;
@@ -177,6 +219,29 @@ export interface StakeInfo {
   cohortWeek: bigint;
 }
 
+export interface StakeEvent {
+  user: Address;
+  stakeId: bigint;
+  isUSDC: boolean;
+  amount: bigint;
+  goalSeconds: bigint;
+  durationDays: bigint;
+  startTimestamp: bigint;
+  cohortWeek: bigint;
+  blockNumber: bigint;
+  txHash: Hash;
+  logIndex: number;
+}
+
+/** What a resolveExpiredV3 tx actually paid the treasury */
+export interface ResolutionOutcome {
+  /** Amount that reached the treasury (wei or USDC base units), null if it couldn't be measured */
+  toTreasury: bigint | null;
+  /** Where `toTreasury` came from — USDC Transfer logs to the treasury, or the
+   *  ETH value of the tx's internal calls to it */
+  source: "transfer" | "trace" | "none";
+}
+
 export interface CohortInfo {
   poolETH: bigint;
   poolUSDC: bigint;
@@ -186,15 +251,62 @@ export interface CohortInfo {
   totalStakersUSDC: bigint;
 }
 
-/** Read a specific stake by user + stakeId */
-export async function getStake(user: Address, stakeId: bigint): Promise<StakeInfo> {
-  const result = await publicClient.readContract({
+let deployment: Promise<ProofwellDeployment> | null = null;
+
+async function detectDeployment(): Promise<ProofwellDeployment> {
+  let version: string;
+  try {
+    version = await getVersion();
+  } catch (e: any) {
+    throw new UnsupportedProofwellVersion(`unreadable: ${e.shortMessage ?? e.message}`);
+  }
+  const spec = PROOFWELL_VERSIONS[version];
+  if (!spec) throw new UnsupportedProofwellVersion(version);
+
+  // A version string is only a claim — read an (empty) stake to check the
+  // contract answers the spec's reader with the layout this file decodes
+  try {
+    decodeStake(spec, zeroAddress, 0n, await publicClient.readContract(stakeCall(spec, zeroAddress, 0n)));
+  } catch (e: any) {
+    throw new UnsupportedProofwellVersion(`${version} (${spec.stakeReader} unreadable: ${e.shortMessage ?? e.message})`);
+  }
+
+  const timing: ProofwellTiming = {
+    secondsPerDay: config.proofwellSecondsPerDay,
+    resolutionBuffer: config.proofwellResolutionBuffer,
+  };
+  console.log(`[proofwell] Contract version ${version} (day = ${timing.secondsPerDay}s, buffer = ${timing.resolutionBuffer}s)`);
+  return { version, spec, timing };
+}
+
+/** Detected contract version and timing. Cached; a failed detection is retried on the next call.
+ *  Throws UnsupportedProofwellVersion for versions missing from the registry. */
+export function getProofwellDeployment(): Promise<ProofwellDeployment> {
+  deployment ??= detectDeployment().catch(e => {
+    deployment = null;
+    throw e;
+  });
+  return deployment;
+}
+
+/** The read call for one stake under the deployment's stake reader */
+function stakeCall(spec: ProofwellSpec, user: Address, stakeId: bigint) {
+  return {
     address: config.proofwellContract,
     abi: proofwellAbi,
-    functionName: "stakesV3",
+    functionName: spec.stakeReader,
     args: [user, stakeId],
-  });
+  } as const;
+}
 
+type StakeV3Flat = readonly [bigint, bigint, bigint, bigint, Hash, Hash, bigint, boolean, boolean, bigint];
+
+/** Decode a stake reader result — `getStakeV3` returns a struct, `stakesV3` a flat tuple */
+function decodeStake(spec: ProofwellSpec, user: Address, stakeId: bigint, raw: unknown): StakeInfo {
+  if (spec.stakeReader === "getStakeV3") {
+    return { user, stakeId, ...pickStakeFields(raw as Omit<StakeInfo, "user" | "stakeId">) };
+  }
+  const result = raw as StakeV3Flat;
   return {
     user,
     stakeId,
@@ -209,6 +321,25 @@ export async function getStake(user: Address, stakeId: bigint): Promise<StakeInf
   };
 }
 
+/** Read a specific stake by user + stakeId */
+export async function getStake(user: Address, stakeId: bigint): Promise<StakeInfo> {
+  const [stake] = await getStakesByIds([{ user, stakeId }]);
+  return stake;
+}
+
+function pickStakeFields(s: Omit<StakeInfo, "user" | "stakeId">) {
+  return {
+    amount: s.amount,
+    goalSeconds: s.goalSeconds,
+    startTimestamp: s.startTimestamp,
+    durationDays: s.durationDays,
+    successfulDays: s.successfulDays,
+    claimed: s.claimed,
+    isUSDC: s.isUSDC,
+    cohortWeek: s.cohortWeek,
+  };
+}
+
 /** Get all active (unclaimed) stakes for a user */
 export async function getActiveStakes(user: Address): Promise<StakeInfo[]> {
   const all = await getAllStakes(user);
@@ -217,20 +348,38 @@ export async function getActiveStakes(user: Address): Promise<StakeInfo[]> {
 
 /** Get all stakes for a user (including claimed/resolved) */
 export async function getAllStakes(user: Address): Promise<StakeInfo[]> {
-  const nextId = await publicClient.readContract({
-    address: config.proofwellContract,
-    abi: proofwellAbi,
-    functionName: "nextStakeId",
-    args: [user],
-  }) as bigint;
-
-  const cappedId = nextId > 50n ? 50n : nextId;
-  const stakePromises: Promise<StakeInfo>[] = [];
-  for (let i = 0n; i < cappedId; i++) {
-    stakePromises.push(getStake(user, i));
-  }
-  const allStakes = await Promise.all(stakePromises);
-  return allStakes.filter(s => s.amount > 0n);
+  return getStakesForUsers([user]);
+}
+
+/**
+ * Get every stake (including claimed/resolved) of every user in `users`.
+ * All `nextStakeId`s are read in one Multicall3 pass, then every stake ID
+ * below them — no cap, paged in `config.multicallChunkSize` chunks.
+ */
+export async function getStakesForUsers(users: Address[]): Promise<StakeInfo[]> {
+  if (users.length === 0) return [];
+  const nextIds = (await multicallChunked(
+    users.map(user => ({
+      address: config.proofwellContract,
+      abi: proofwellAbi,
+      functionName: "nextStakeId",
+      args: [user],
+    })),
+  )) as bigint[];
+
+  const ids = users.flatMap((user, i) =>
+    Array.from({ length: Number(nextIds[i]) }, (_, id) => ({ user, stakeId: BigInt(id) })),
+  );
+  const stakes = await getStakesByIds(ids);
+  return stakes.filter(s => s.amount > 0n);
+}
+
+/** Read specific stakes in `config.multicallChunkSize` chunks. IDs that were never used come back with amount 0. */
+export async function getStakesByIds(ids: Array<{ user: Address; stakeId: bigint }>): Promise<StakeInfo[]> {
+  if (ids.length === 0) return [];
+  const { spec } = await getProofwellDeployment();
+  const raw = await multicallChunked(ids.map(({ user, stakeId }) => stakeCall(spec, user, stakeId)));
+  return ids.map(({ user, stakeId }, i) => decodeStake(spec, user, stakeId, raw[i]));
 }
 
 /** Get treasury address from contract */
@@ -270,53 +419,104 @@ export async function getCohortInfo(week: bigint): Promise<CohortInfo> {
   };
 }
 
+/** Unix seconds at which the stake's last day ends */
+export function stakeEndTime(stake: StakeInfo, timing: ProofwellTiming): bigint {
+  return stake.startTimestamp + stake.durationDays * timing.secondsPerDay;
+}
+
 /** Check if a stake is resolvable (expired + past resolution buffer) */
-export function isResolvable(stake: StakeInfo): boolean {
+export function isResolvable(stake: StakeInfo, timing: ProofwellTiming): boolean {
   if (stake.claimed || stake.amount === 0n) return false;
   const now = BigInt(Math.floor(Date.now() / 1000));
-  const stakeEnd = stake.startTimestamp + stake.durationDays * BigInt(SECONDS_PER_DAY);
-  return now > stakeEnd + BigInt(RESOLUTION_BUFFER);
+  return now > stakeEndTime(stake, timing) + timing.resolutionBuffer;
 }
 
-/** Resolve an expired V3 stake */
-export async function resolveExpired(user: Address, stakeId: bigint): Promise<string> {
+/** Resolve an expired V3 stake and decode what it paid out */
+export async function resolveExpired(
+  user: Address,
+  stakeId: bigint,
+  isUSDC: boolean,
+): Promise<{ hash: string; outcome: ResolutionOutcome }> {
+  await getProofwellDeployment(); // refuse to resolve on an unknown contract version
   const data = encodeFunctionData({
     abi: proofwellAbi,
     functionName: "resolveExpiredV3",
     args: [user, stakeId],
   });
 
-  return sendTransaction({
+  const receipt = await sendTransaction({
     to: config.proofwellContract,
     data,
+    label: "resolveExpiredV3",
   });
+  const treasury = await getTreasuryAddress();
+  const toTreasury = isUSDC ? usdcToTreasury(receipt, treasury) : await ethToTreasury(receipt, treasury);
+  const outcome: ResolutionOutcome = { toTreasury, source: toTreasury === null ? "none" : isUSDC ? "transfer" : "trace" };
+  return { hash: receipt.transactionHash, outcome };
 }
 
-/** Scan for stakers by reading recent V3 Staked events */
-export async function findActiveStakers(fromBlock?: bigint): Promise<Address[]> {
-  const currentBlock = await publicClient.getBlockNumber();
-  const from = fromBlock ?? currentBlock - 9900n; // ~8 hours on Base (2s blocks), within RPC log limits
+/** USDC sent to the treasury within a receipt, from the token's Transfer logs */
+function usdcToTreasury(receipt: TransactionReceipt, treasury: Address): bigint {
+  const usdcLogs = receipt.logs.filter(log => isAddressEqual(log.address, config.usdc));
+  return parseEventLogs({ abi: [transferEvent], logs: usdcLogs })
+    .filter(t => isAddressEqual(t.args.to, treasury))
+    .reduce((sum, t) => sum + t.args.value, 0n);
+}
 
-  const [ethEvents, usdcEvents] = await Promise.all([
-    publicClient.getLogs({
-      address: config.proofwellContract,
-      event: stakeEvents[0],
-      fromBlock: from,
-      toBlock: currentBlock,
-    }),
-    publicClient.getLogs({
-      address: config.proofwellContract,
-      event: stakeEvents[1],
-      fromBlock: from,
-      toBlock: currentBlock,
-    }),
-  ]);
-
-  const users = new Set<Address>(KNOWN_STAKERS);
-  for (const e of [...ethEvents, ...usdcEvents]) {
-    if (e.args.user) users.add(e.args.user);
+interface CallFrame {
+  to?: Address;
+  value?: Hex;
+  error?: string;
+  calls?: CallFrame[];
+}
+
+/** ETH value of the successful internal calls to `treasury` in a call trace */
+function sumValueTo(frame: CallFrame, treasury: Address): bigint {
+  if (frame.error) return 0n;
+  const own = frame.to && frame.value && isAddressEqual(frame.to, treasury) ? BigInt(frame.value) : 0n;
+  return (frame.calls ?? []).reduce((sum, call) => sum + sumValueTo(call, treasury), own);
+}
+
+/**
+ * ETH sent to the treasury within a tx, from its `callTracer` trace, or null
+ * if the RPC doesn't serve `debug_traceTransaction`. ETH payouts are internal
+ * calls with no log, so the trace is the only record of them.
+ */
+async function ethToTreasury(receipt: TransactionReceipt, treasury: Address): Promise<bigint | null> {
+  try {
+    const trace = (await publicClient.request({
+      method: "debug_traceTransaction",
+      params: [receipt.transactionHash, { tracer: "callTracer" }],
+    } as any)) as CallFrame;
+    return sumValueTo(trace, treasury);
+  } catch (e: any) {
+    console.log(`[proofwell] No call trace for ${receipt.transactionHash}: ${e.shortMessage ?? e.message}`);
+    return null;
   }
-  return [...users];
+}
+
+/** Read V3 Staked events in [fromBlock, toBlock]. Callers must keep the range within RPC log limits. */
+export async function getStakeEvents(fromBlock: bigint, toBlock: bigint): Promise<StakeEvent[]> {
+  const logs = await publicClient.getLogs({
+    address: config.proofwellContract,
+    events: stakeEvents,
+    fromBlock,
+    toBlock,
+  });
+
+  return logs.map(log => ({
+    user: getAddress(log.args.user!),
+    stakeId: log.args.stakeId!,
+    isUSDC: log.eventName === "StakedUSDCV3",
+    amount: log.args.amount!,
+    goalSeconds: log.args.goalSeconds!,
+    durationDays: log.args.durationDays!,
+    startTimestamp: log.args.startTimestamp!,
+    cohortWeek: log.args.cohortWeek!,
+    blockNumber: log.blockNumber,
+    txHash: log.transactionHash,
+    logIndex: log.logIndex,
+  }));
 }
 
 /** Get contract version */
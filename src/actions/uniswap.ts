@@ -0,0 +1,127 @@
+import { encodeFunctionData, formatEther, formatUnits } from "viem";
+import { publicClient, agentAddress } from "../agent/wallet.js";
+import { sendTransaction } from "../agent/tx-manager.js";
+import { config } from "../config.js";
+import { ensureAllowance, getTokenBalance } from "./erc20.js";
+
+// Uniswap V3 SwapRouter02 / QuoterV2 (exact-input single-pool swaps only)
+const swapRouterAbi = [
+  {
+    name: "exactInputSingle",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tokenIn", type: "address" },
+          { name: "tokenOut", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "recipient", type: "address" },
+          { name: "amountIn", type: "uint256" },
+          { name: "amountOutMinimum", type: "uint256" },
+          { name: "sqrtPriceLimitX96", type: "uint160" },
+        ],
+      },
+    ],
+    outputs: [{ name: "amountOut", type: "uint256" }],
+  },
+] as const;
+
+const quoterAbi = [
+  {
+    name: "quoteExactInputSingle",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tokenIn", type: "address" },
+          { name: "tokenOut", type: "address" },
+          { name: "amountIn", type: "uint256" },
+          { name: "fee", type: "uint24" },
+          { name: "sqrtPriceLimitX96", type: "uint160" },
+        ],
+      },
+    ],
+    outputs: [
+      { name: "amountOut", type: "uint256" },
+      { name: "sqrtPriceX96After", type: "uint160" },
+      { name: "initializedTicksCrossed", type: "uint32" },
+      { name: "gasEstimate", type: "uint256" },
+    ],
+  },
+] as const;
+
+const wethAbi = [
+  {
+    name: "withdraw",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "wad", type: "uint256" }],
+    outputs: [],
+  },
+] as const;
+
+/** Expected WETH out for `amountIn` USDC. The quoter is non-view by design, so this is an eth_call. */
+export async function quoteUsdcToEth(amountIn: bigint): Promise<bigint> {
+  const { result } = await publicClient.simulateContract({
+    address: config.uniswapQuoter,
+    abi: quoterAbi,
+    functionName: "quoteExactInputSingle",
+    args: [{ tokenIn: config.aaveUsdc, tokenOut: config.weth, amountIn, fee: config.gasTopUp.poolFee, sqrtPriceLimitX96: 0n }],
+  });
+  return result[0];
+}
+
+/** Unwrap the wallet's WETH to native ETH, up to the weth_unwrap per-tx limit.
+ *  Returns null when there is none. */
+export async function unwrapWeth(): Promise<{ hash: string; amount: bigint } | null> {
+  const balance = await getTokenBalance(config.weth);
+  const cap = config.policyLimits.weth_unwrap?.perTx;
+  const amount = cap !== undefined && balance > cap ? cap : balance;
+  if (amount === 0n) return null;
+  const data = encodeFunctionData({ abi: wethAbi, functionName: "withdraw", args: [amount] });
+  const { transactionHash: hash } = await sendTransaction({ to: config.weth, data, label: "WETH unwrap", builderCode: false });
+  return { hash, amount };
+}
+
+/** Swap USDC → WETH on the configured router, then unwrap to native ETH
+ *  (along with any WETH an earlier failed unwrap left behind).
+ *  Reverts on-chain if fewer than `minOut` wei come back. */
+export async function swapUsdcForEth(amountIn: bigint, minOut: bigint): Promise<{ hash: string; ethOut: bigint }> {
+  await ensureAllowance(config.aaveUsdc, config.uniswapRouter, amountIn, "USDC approval (swap router)");
+
+  const wethBefore = await getTokenBalance(config.weth);
+  const data = encodeFunctionData({
+    abi: swapRouterAbi,
+    functionName: "exactInputSingle",
+    args: [
+      {
+        tokenIn: config.aaveUsdc,
+        tokenOut: config.weth,
+        fee: config.gasTopUp.poolFee,
+        recipient: agentAddress,
+        amountIn,
+        amountOutMinimum: minOut,
+        sqrtPriceLimitX96: 0n,
+      },
+    ],
+  });
+  const { transactionHash: hash } = await sendTransaction({ to: config.uniswapRouter, data, label: "Gas top-up swap" });
+  const ethOut = (await getTokenBalance(config.weth)) - wethBefore;
+
+  try {
+    await unwrapWeth();
+  } catch (e: any) {
+    throw new Error(
+      `Swap ${hash} bought ${formatEther(ethOut)} WETH but the unwrap failed (${e.shortMessage ?? e.message}) — it is retried next cycle`,
+    );
+  }
+
+  console.log(`[swap] Swapped ${formatUnits(amountIn, 6)} USDC → ${formatEther(ethOut)} ETH`);
+  return { hash, ethOut };
+}
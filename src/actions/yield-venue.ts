@@ -0,0 +1,63 @@
+import { config } from "../config.js";
+import { aaveVenue } from "./aave.js";
+import { createErc4626Venue } from "./erc4626.js";
+
+/**
+ * Yield venues
+ *
+ * Anywhere idle treasury USDC can earn yield. The decision engine only talks
+ * to this interface, so adding a protocol means writing an adapter and
+ * listing it here — allocation across venues is driven by `VENUE_WEIGHTS`.
+ */
+
+export interface VenueHealth {
+  /** Why a deposit would revert right now, null if deposits are open */
+  depositBlocked: string | null;
+  /** Why a withdrawal would revert right now, null if withdrawals are open */
+  withdrawBlocked: string | null;
+  /** Most that can be deposited right now (base units), null if uncapped */
+  maxDeposit: bigint | null;
+  /** Most of our position that can be withdrawn right now (base units) */
+  maxWithdraw: bigint;
+  /** Venue-specific context for logs and the LLM prompt */
+  details: string;
+}
+
+/** Position in units that only change on deposit/withdraw, plus a ray (1e27)
+ *  index that only grows with yield: value = units × index / 1e27 */
+export interface VenueSnapshot {
+  units: bigint;
+  index: bigint;
+}
+
+export interface YieldVenue {
+  readonly id: string;
+  readonly name: string;
+  /** Action types used in the action log and policy limits */
+  readonly actions: { deposit: string; withdraw: string };
+  /** Returns the tx hash */
+  deposit(amount: bigint): Promise<string>;
+  /** Returns the tx hash */
+  withdraw(amount: bigint): Promise<string>;
+  /** Current value of our position in USDC base units */
+  position(): Promise<bigint>;
+  /** Current supply APY as a fraction (0.045 = 4.5%). Read-only — safe to call from the API. */
+  apy(): Promise<number>;
+  /** Record whatever `apy()` measures from, for venues without a rate getter.
+   *  Called once per agent cycle, never from the API. */
+  sampleRate?(): Promise<void>;
+  health(): Promise<VenueHealth>;
+  snapshot(): Promise<VenueSnapshot>;
+}
+
+let venues: YieldVenue[] | null = null;
+
+/** Aave plus every vault in ERC4626_VAULTS */
+export function getYieldVenues(): YieldVenue[] {
+  venues ??= [aaveVenue, ...config.erc4626Vaults.map(createErc4626Venue)];
+  return venues;
+}
+
+export function getVenueWeight(venue: YieldVenue): number {
+  return config.venueWeights[venue.id] ?? 0;
+}
@@ -0,0 +1,89 @@
+import type { YieldVenue, VenueHealth } from "../actions/yield-venue.js";
+
+/**
+ * Allocation across yield venues
+ *
+ * Each venue's target share of invested capital is its configured weight
+ * times its current APY (weight alone while no venue reports an APY).
+ * Deposits fill the venues furthest below target first; withdrawals drain
+ * the lowest-yielding venues first. Caps and blocked venues are respected,
+ * so a plan may cover less than the requested amount.
+ */
+
+export interface VenueState {
+  venue: YieldVenue;
+  weight: number;
+  position: bigint;
+  apy: number;
+  health: VenueHealth;
+}
+
+export interface AllocationStep {
+  venue: YieldVenue;
+  amount: bigint;
+}
+
+// Allocations smaller than this are folded into the largest one — not worth the gas
+const MIN_VENUE_DEPOSIT = 1_000_000n; // 1 USDC
+const PPM = 1_000_000;
+
+export function planDeposits(states: VenueState[], amount: bigint): AllocationStep[] {
+  const open = states.filter(s => s.weight > 0 && !s.health.depositBlocked && s.health.maxDeposit !== 0n);
+  if (open.length === 0 || amount <= 0n) return [];
+
+  const useApy = open.some(s => s.apy > 0);
+  const scores = open.map(s => (useApy ? s.weight * Math.max(s.apy, 0) : s.weight));
+  const scoreTotal = scores.reduce((a, b) => a + b, 0);
+  if (scoreTotal <= 0) return [];
+
+  // Target position per venue after this deposit, then each venue's shortfall
+  const invested = open.reduce((sum, s) => sum + s.position, 0n);
+  const deficits = open.map((s, i) => {
+    const target = ((invested + amount) * BigInt(Math.round((scores[i] / scoreTotal) * PPM))) / BigInt(PPM);
+    return target > s.position ? target - s.position : 0n;
+  });
+  const deficitTotal = deficits.reduce((a, b) => a + b, 0n);
+
+  const plan = open.map((s, i) => {
+    const share = deficitTotal > 0n ? (amount * deficits[i]) / deficitTotal : 0n;
+    const cap = s.health.maxDeposit;
+    return { venue: s.venue, amount: cap !== null && share > cap ? cap : share };
+  });
+
+  // Whatever caps or rounding left over goes to venues that still have room, best score first
+  let leftover = amount - plan.reduce((sum, p) => sum + p.amount, 0n);
+  const byScore = open.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+  for (const i of byScore) {
+    if (leftover <= 0n) break;
+    const cap = open[i].health.maxDeposit;
+    const room = cap === null ? leftover : cap - plan[i].amount;
+    const extra = room < leftover ? room : leftover;
+    plan[i].amount += extra;
+    leftover -= extra;
+  }
+
+  const kept = plan.filter(p => p.amount >= MIN_VENUE_DEPOSIT);
+  const dust = plan.filter(p => p.amount > 0n && p.amount < MIN_VENUE_DEPOSIT);
+  if (kept.length === 0) return [];
+  const largest = kept.reduce((a, b) => (b.amount > a.amount ? b : a));
+  const largestCap = open.find(s => s.venue === largest.venue)!.health.maxDeposit;
+  for (const d of dust) {
+    if (largestCap === null || largest.amount + d.amount <= largestCap) largest.amount += d.amount;
+  }
+  return kept;
+}
+
+export function planWithdrawals(states: VenueState[], amount: bigint): AllocationStep[] {
+  const plan: AllocationStep[] = [];
+  let remaining = amount;
+  const candidates = states
+    .filter(s => !s.health.withdrawBlocked && s.health.maxWithdraw > 0n)
+    .sort((a, b) => a.apy - b.apy);
+  for (const s of candidates) {
+    if (remaining <= 0n) break;
+    const take = s.health.maxWithdraw < remaining ? s.health.maxWithdraw : remaining;
+    plan.push({ venue: s.venue, amount: take });
+    remaining -= take;
+  }
+  return plan;
+}
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Address } from "viem";
+import type { Attestation } from "../api/x402-attestation.js";
+import type { PublishedAttestation } from "./state.js";
+import { planAttestations } from "./attestations.js";
+
+const ALICE: Address = "0x00000000000000000000000000000000000000A1";
+const BOB: Address = "0x00000000000000000000000000000000000000b0";
+const CAROL: Address = "0x00000000000000000000000000000000000000c0";
+
+function score(wallet: Address, disciplineScore: number, isStaking = true): Attestation {
+  return {
+    wallet,
+    isStaking,
+    totalStakes: 1,
+    stakeAmount: "10",
+    stakeAsset: "USDC",
+    stakeValueUsd: "10",
+    daysCompleted: 3,
+    totalDays: 7,
+    successRate: 0.5,
+    disciplineScore,
+    isActive: true,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    source: "proofwell-agent",
+  };
+}
+
+function published(uid: string, wallet: string, disciplineScore: number): PublishedAttestation {
+  return { uid, wallet, schemaUid: "0xschema", disciplineScore, successRateBps: 5000, txHash: "0xtx", attestedAt: "2026-01-01" };
+}
+
+describe("planAttestations", () => {
+  it("attests staking wallets without an attestation and ignores the rest", () => {
+    const writes = planAttestations([score(ALICE, 40), score(BOB, 70, false)], [], 10);
+
+    assert.deepEqual(writes.map(w => [w.kind, w.reason]), [["attest", "first score: 40"]]);
+  });
+
+  it("replaces an attestation only once the score moved by minScoreChange", () => {
+    const writes = planAttestations(
+      [score(ALICE, 59), score(BOB, 61)],
+      [published("0x01", ALICE, 50), published("0x02", BOB, 50)],
+      10,
+    );
+
+    assert.equal(writes.length, 1);
+    const [write] = writes;
+    assert.equal(write.kind, "replace");
+    assert.equal(write.kind === "replace" && write.previous.uid, "0x02");
+    assert.equal(write.reason, "score 50 → 61");
+  });
+
+  it("matches wallets case-insensitively", () => {
+    const writes = planAttestations([score(ALICE, 50)], [published("0x01", ALICE.toLowerCase(), 50)], 10);
+
+    assert.deepEqual(writes, []);
+  });
+
+  it("revokes wallets that stopped staking or lost their score", () => {
+    const writes = planAttestations([score(ALICE, 50, false)], [published("0x01", ALICE, 50), published("0x02", BOB, 30)], 10);
+
+    assert.deepEqual(writes.map(w => [w.kind, w.kind === "attest" ? null : w.previous.uid, w.reason]), [
+      ["revoke", "0x01", "no longer staking"],
+      ["revoke", "0x02", "no longer staking"],
+    ]);
+  });
+
+  it("revokes superseded attestations first, then orders by score change", () => {
+    const writes = planAttestations(
+      [score(ALICE, 90), score(BOB, 30), score(CAROL, 20)],
+      [published("0x01", ALICE, 10), published("0x02", BOB, 10), published("0x03", ALICE, 60)],
+      10,
+    );
+
+    assert.deepEqual(writes.map(w => [w.kind, w.reason]), [
+      ["revoke", "superseded"],
+      ["replace", "score 60 → 90"],
+      ["replace", "score 10 → 30"],
+      ["attest", "first score: 20"],
+    ]);
+    assert.equal(writes[0].kind === "revoke" && writes[0].previous.uid, "0x01");
+  });
+});
@@ -0,0 +1,64 @@
+import type { Attestation } from "../api/x402-attestation.js";
+import type { PublishedAttestation } from "./state.js";
+
+/**
+ * On-chain attestation planning
+ *
+ * Compares every staker's current score with the attestation last published
+ * for them and decides which EAS writes are worth their gas:
+ * - attest: a staking wallet with no attestation yet
+ * - replace: the score moved by at least `minScoreChange` — attest the new
+ *   score (referencing the old one), then revoke the old one
+ * - revoke: the wallet no longer has a score, or an older attestation was
+ *   left unrevoked by a replace that failed halfway
+ * Biggest changes come first, so a per-cycle cap keeps the ones that matter.
+ */
+
+export type AttestationWrite =
+  | { kind: "attest"; attestation: Attestation; reason: string }
+  | { kind: "replace"; attestation: Attestation; previous: PublishedAttestation; reason: string }
+  | { kind: "revoke"; previous: PublishedAttestation; reason: string };
+
+/** `published` must be oldest first */
+export function planAttestations(current: Attestation[], published: PublishedAttestation[], minScoreChange: number): AttestationWrite[] {
+  // Latest attestation per wallet
+  const byWallet = new Map(published.map(p => [p.wallet.toLowerCase(), p]));
+  const scored = new Set<string>();
+  const writes: Array<AttestationWrite & { change: number }> = [];
+
+  for (const p of published) {
+    if (byWallet.get(p.wallet.toLowerCase()) === p) continue;
+    // Ahead of any score change (scores are 0–100)
+    writes.push({ kind: "revoke", previous: p, reason: "superseded", change: 101 });
+  }
+
+  for (const a of current) {
+    if (!a.isStaking) continue;
+    const wallet = a.wallet.toLowerCase();
+    scored.add(wallet);
+    const previous = byWallet.get(wallet);
+    if (!previous) {
+      writes.push({ kind: "attest", attestation: a, reason: `first score: ${a.disciplineScore}`, change: a.disciplineScore });
+      continue;
+    }
+    const change = Math.abs(a.disciplineScore - previous.disciplineScore);
+    if (change >= minScoreChange) {
+      writes.push({
+        kind: "replace",
+        attestation: a,
+        previous,
+        reason: `score ${previous.disciplineScore} → ${a.disciplineScore}`,
+        change,
+      });
+    }
+  }
+
+  for (const p of byWallet.values()) {
+    if (scored.has(p.wallet.toLowerCase())) continue;
+    writes.push({ kind: "revoke", previous: p, reason: "no longer staking", change: p.disciplineScore });
+  }
+
+  return writes
+    .sort((a, b) => b.change - a.change)
+    .map(({ change: _, ...write }) => write as AttestationWrite);
+}
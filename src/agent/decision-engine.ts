@@ -1,21 +1,66 @@
-import { formatUnits, formatEther, type Address } from "viem";
+import { formatUnits, formatEther, type Address, type Hex } from "viem";
 import { config } from "../config.js";
 import { getBalances, agentAddress, publicClient } from "./wallet.js";
-import { supplyUsdc, withdrawUsdc, getAavePosition } from "../actions/aave.js";
+import { getYieldVenues, getVenueWeight } from "../actions/yield-venue.js";
+import { quoteUsdcToEth, swapUsdcForEth, unwrapWeth } from "../actions/uniswap.js";
+import { getEthUsdPrice, weiToMicroUsd, formatUsdPrice, type PriceQuote } from "../actions/price.js";
 import {
-  findActiveStakers,
-  getActiveStakes,
+  getStakesByIds,
+  getStakesForUsers,
   isResolvable,
   resolveExpired,
   formatStake,
   getCurrentWeek,
   getCohortInfo,
+  getProofwellDeployment,
+  UnsupportedProofwellVersion,
+  type ProofwellDeployment,
+  type StakeInfo,
+  type ResolutionOutcome,
 } from "../actions/proofwell.js";
-import { logAction, logRevenue, logCost, getState, setState } from "./state.js";
-import OpenAI from "openai";
-
-// Estimated gas cost per tx in USD (Base L2, ~$0.001-0.01)
-const GAS_COST_ESTIMATE_USD = 0.005;
+import {
+  logAction,
+  logRevenue,
+  logCost,
+  getState,
+  setState,
+  saveResolutionCandidates,
+  scheduleIndexedStakes,
+  getScheduledStakes,
+  setScheduleStatus,
+  requeueScheduledStakes,
+  getRefundsDue,
+  beginRefund,
+  refundLabel,
+  updatePayment,
+  getIndexedStakers,
+  getPublishedAttestations,
+  recordEasAttestation,
+  recordEasRevocation,
+  getGasCost24h,
+  formatAmount,
+  getPolicyUsage24h,
+  logLlmDecision,
+  updateLlmDecisionStatus,
+  type LlmDecisionStatus,
+} from "./state.js";
+import { syncStakeIndex, isStakeIndexCaughtUp } from "./indexer.js";
+import { syncVenuePosition } from "../tracking/venue-yield.js";
+import { reconcilePayments, reconcileRefunds, reconcileRefund } from "../tracking/x402-payments.js";
+import { transferToken, getTokenBalance } from "../actions/erc20.js";
+import { isSchemaRegistered, registerSchema, attestScore, revokeScore } from "../actions/eas.js";
+import { EAS_SCHEMA_UID } from "../actions/eas-schema.js";
+import { buildWalletAttestation, type Attestation } from "../api/x402-attestation.js";
+import { planAttestations, type AttestationWrite } from "./attestations.js";
+import { planDeposits, planWithdrawals, type VenueState, type AllocationStep } from "./allocation.js";
+import { planResolutions, type ResolutionCandidate } from "./resolution.js";
+import { DryRunHalt } from "./tx-manager.js";
+import { PolicyViolation, EAS_ACTIONS } from "./policy.js";
+import { createLlmProvider, requirePositiveNumber, requireString, type LlmTool } from "./llm.js";
+
+const DEPOSIT_SKIP_KEY = "deposit_skip_reason";
+const VERSION_REFUSAL_KEY = "proofwell_version_refused";
+const EAS_SYNC_KEY = "eas_last_sync";
 
 interface Decision {
   action: string;
@@ -23,10 +68,25 @@ interface Decision {
   execute: () => Promise<void>;
 }
 
+/** Position, APY and health of every yield venue. A venue whose reads fail sits out this cycle. */
+async function gatherVenueStates(): Promise<VenueState[]> {
+  const states: VenueState[] = [];
+  for (const venue of getYieldVenues()) {
+    try {
+      const [position, apy, health] = await Promise.all([venue.position(), venue.apy(), venue.health()]);
+      states.push({ venue, weight: getVenueWeight(venue), position, apy, health });
+    } catch (e: any) {
+      console.log(`[state] ${venue.name} read failed:`, e.message);
+    }
+  }
+  return states;
+}
+
 /** Gather all chain state the agent needs */
 async function gatherState() {
   const balances = await getBalances();
-  const aavePosition = await getAavePosition();
+  const venues = await gatherVenueStates();
+  const invested = venues.reduce((sum, v) => sum + v.position, 0n);
 
   let currentWeek: bigint | null = null;
   let cohort = null;
@@ -37,7 +97,7 @@ async function gatherState() {
     console.log('[state] Contract read failed:', e.message);
   }
 
-  return { balances, aavePosition, currentWeek, cohort };
+  return { balances, venues, invested, currentWeek, cohort };
 }
 
 /** Deterministic rules — no LLM needed */
@@ -46,102 +106,469 @@ async function deterministicDecisions(): Promise<Decision[]> {
   const state = await gatherState();
   const { balances } = state;
 
-  // Rule 0: Track Aave yield as revenue (only interest, not deposits)
-  // Deposits update last_aave_position immediately after executing, so the
-  // delta here only captures real yield accrued between cycles.
-  const aavePosition = state.aavePosition;
-  const lastAavePosition = getState("last_aave_position");
-  if (lastAavePosition) {
-    const prev = BigInt(lastAavePosition);
-    if (aavePosition > prev) {
-      const yieldDelta = aavePosition - prev;
-      const yieldUsdc = Number(formatUnits(yieldDelta, 6));
-      // Cap at $1 to catch any deposit-as-yield bugs — real yield is tiny
-      if (yieldUsdc > 0.000001 && yieldUsdc < 1.0) {
-        logRevenue("aave_yield", yieldUsdc, undefined, `Aave V3 interest: ${formatUnits(yieldDelta, 6)} USDC`);
-        logAction("aave_yield", `Earned ${formatUnits(yieldDelta, 6)} USDC yield from Aave V3`, undefined, yieldUsdc);
-      }
+  // Rule 0: Book interest accrued in each yield venue since the last sync as revenue.
+  // Computed from the venue's index, so deposits/withdrawals never count as yield.
+  // Venues that measure APY from samples take them here, once per cycle.
+  for (const venue of getYieldVenues()) {
+    try {
+      await venue.sampleRate?.();
+      await syncVenuePosition(venue);
+    } catch (e: any) {
+      console.log(`[decisions] ${venue.name} position sync failed: ${e.message}`);
     }
   }
-  setState("last_aave_position", aavePosition.toString());
 
-  // Rule 1: Idle Aave USDC above threshold → deposit to Aave
+  // Rule 1: Idle Aave USDC above threshold → split across yield venues by weight and APY
   // On testnet, Aave uses a different USDC than Proofwell. Use aaveUsdc balance.
-  const aaveUsdcBalance = balances.aaveUsdc;
+  // When gas is low, the top-up amount is held back for Rule 3's swap.
+  const lowEth = balances.eth < config.lowEthThreshold;
+  const reservedForGas = lowEth && config.gasTopUp.enabled ? config.gasTopUp.amountUsdc : 0n;
+  const aaveUsdcBalance = balances.aaveUsdc > reservedForGas ? balances.aaveUsdc - reservedForGas : 0n;
   if (aaveUsdcBalance > config.idleUsdcThreshold) {
     const depositAmount = aaveUsdcBalance - config.idleUsdcThreshold / 2n; // Keep some liquid
-    decisions.push({
-      action: "aave_supply",
-      reason: `Idle USDC (${formatUnits(aaveUsdcBalance, 6)}) > threshold → depositing ${formatUnits(depositAmount, 6)} to Aave`,
-      execute: async () => {
-        const hash = await supplyUsdc(depositAmount);
-        logAction("aave_supply", `Deposited ${formatUnits(depositAmount, 6)} USDC to Aave`, hash, Number(formatUnits(depositAmount, 6)));
-        logCost("gas", GAS_COST_ESTIMATE_USD, "Aave supply tx gas");
-        // Update position tracker so deposit isn't counted as yield next cycle
-        const newPosition = await getAavePosition();
-        setState("last_aave_position", newPosition.toString());
-      },
-    });
+    const plan = planDeposits(state.venues, depositAmount);
+    if (plan.length === 0) {
+      const blocked = describeBlockedDeposits(state.venues);
+      console.log(`[decisions] Skipping deposit: ${blocked}`);
+      // Only log to the action feed when the reason changes, not every cycle
+      if (getState(DEPOSIT_SKIP_KEY) !== blocked) {
+        logAction("deposit_skipped", `Skipped depositing ${formatUnits(depositAmount, 6)} USDC: ${blocked}`, undefined, 0n, "USDC", false);
+        setState(DEPOSIT_SKIP_KEY, blocked);
+      }
+    } else {
+      setState(DEPOSIT_SKIP_KEY, "");
+      for (const { venue, amount } of plan) {
+        decisions.push({
+          action: venue.actions.deposit,
+          reason: `Idle USDC (${formatUnits(aaveUsdcBalance, 6)}) > threshold → depositing ${formatUnits(amount, 6)} to ${venue.name}`,
+          execute: async () => {
+            const hash = await venue.deposit(amount);
+            logAction(venue.actions.deposit, `Deposited ${formatUnits(amount, 6)} USDC to ${venue.name}`, hash, amount);
+            await syncVenuePosition(venue, amount);
+          },
+        });
+      }
+    }
   }
 
   // Rule 2: Find and resolve expired V3 stakes
+  // Only on a contract version from the registry — an unknown one is refused.
+  // Candidates come from the expiry schedule over the persistent index; a
+  // failed sync, or a backfill still running in the background, still leaves
+  // every stake indexed so far eligible.
+  let deployment: ProofwellDeployment | null = null;
   if (config.proofwellContract !== "0x0000000000000000000000000000000000000000") {
-    let stakers: Address[] = [];
     try {
-      stakers = await findActiveStakers();
+      deployment = await getProofwellDeployment();
+      setState(VERSION_REFUSAL_KEY, "");
     } catch (e: any) {
-      console.log(`[decisions] Skipping proofwell scan: ${e.message}`);
+      console.log(`[decisions] Not resolving stakes: ${e.message}`);
+      if (e instanceof UnsupportedProofwellVersion && getState(VERSION_REFUSAL_KEY) !== e.version) {
+        logAction("proofwell_unsupported", e.message, undefined, 0n, "USDC", false);
+        setState(VERSION_REFUSAL_KEY, e.version);
+      }
     }
-    for (const user of stakers) {
+  }
+  if (deployment) {
+    const { timing } = deployment;
+    if (isStakeIndexCaughtUp()) {
       try {
-        const stakes = await getActiveStakes(user);
-        for (const stake of stakes) {
-          if (isResolvable(stake)) {
-            // Calculate forfeiture: if user didn't complete all days, 40% goes to treasury
-            const failedDays = Number(stake.durationDays - stake.successfulDays);
-            const forfeitRate = failedDays > 0 ? 0.4 : 0;
-            // Only track revenue for USDC stakes (ETH has no oracle, can't convert to USD)
-            const treasuryRevenue = stake.isUSDC
-              ? Number(formatUnits(stake.amount, 6)) * forfeitRate
-              : 0;
-
-            decisions.push({
-              action: "resolve_expired",
-              reason: `Stake ${formatStake(stake)} is expired + past buffer → resolving (${failedDays} failed days, ~$${treasuryRevenue.toFixed(4)} to treasury)`,
-              execute: async () => {
-                const hash = await resolveExpired(user, stake.stakeId);
-                logAction("resolve_expired", `Resolved expired stake for ${user}[${stake.stakeId}] — ${failedDays} failed days`, hash, treasuryRevenue);
-                if (treasuryRevenue > 0) {
-                  logRevenue("treasury_slash", treasuryRevenue, hash, `40% forfeiture from ${user.slice(0, 10)}[${stake.stakeId}]`);
-                }
-                logCost("gas", GAS_COST_ESTIMATE_USD, "resolveExpiredV3 tx gas");
-              },
-            });
-          }
-        }
+        await syncStakeIndex();
       } catch (e: any) {
-        console.log(`[decisions] Skipping stakes for ${user.slice(0, 10)}: ${e.message}`);
+        console.log(`[decisions] Stake index sync failed: ${e.message}`);
       }
+    } else {
+      console.log("[decisions] Stake index still backfilling — using the stakes indexed so far");
+    }
+    let ethPrice: PriceQuote | null = null;
+    try {
+      ethPrice = await getEthUsdPrice();
+    } catch (e: any) {
+      console.log(`[decisions] ${e.message}`);
+    }
+    // Only stakes the schedule says are past their end time are read from chain
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    scheduleIndexedStakes(timing.secondsPerDay, timing.resolutionBuffer);
+    // Stakes the "profitable" policy gave up on are due again under "always"
+    if (config.resolution.policy === "always") requeueScheduledStakes("no_revenue");
+    const due = getScheduledStakes({ until: now });
+    let stakes: StakeInfo[] = [];
+    try {
+      stakes = await getStakesByIds(due.map(d => ({ user: d.user as Address, stakeId: d.stakeId })));
+    } catch (e: any) {
+      console.log(`[decisions] Stake read failed for ${due.length} due stakes: ${e.message}`);
+    }
+    for (const s of stakes) {
+      // Claimed, resolved by someone else, or never existed — nothing left to do
+      if (s.claimed || s.amount === 0n) setScheduleStatus(s.user, s.stakeId, "settled");
+    }
+
+    const resolvable = stakes.filter(s => isResolvable(s, timing));
+    const plan = planResolutions(resolvable, {
+      ...config.resolution,
+      timing,
+      gasPriceWei: resolvable.length > 0 ? await publicClient.getGasPrice() : 0n,
+      ethPrice,
+      now,
+    });
+    saveResolutionCandidates(
+      plan.candidates.map(c => ({
+        user: c.stake.user,
+        stakeId: c.stake.stakeId,
+        asset: c.stake.isUSDC ? "USDC" : "ETH",
+        amount: c.stake.amount,
+        resolvableAt: c.resolvableAt,
+        revenueUsd: c.revenueUsd,
+        gasUsd: c.gasUsd,
+        expectedValue: c.expectedValue,
+        decision: c.decision,
+        reason: c.reason,
+      })),
+    );
+    for (const c of plan.candidates.filter(c => c.noRevenue)) {
+      // Nothing to gain from it, ever — stop re-reading it every cycle
+      setScheduleStatus(c.stake.user, c.stake.stakeId, "no_revenue");
+      logAction("resolution_skipped", `Stake ${formatStake(c.stake)} has no failed days — left to its owner under the "profitable" policy`);
+    }
+    const held = plan.candidates.length - plan.resolve.length;
+    if (held > 0) console.log(`[decisions] ${held} resolvable stake(s) held back by the "${config.resolution.policy}" policy`);
+
+    for (const c of plan.resolve) {
+      decisions.push({
+        action: "resolve_expired",
+        reason: `Stake ${formatStake(c.stake)} is expired + past buffer → resolving (${describeCandidate(c)})`,
+        execute: async () => {
+          const { hash, outcome } = await resolveExpired(c.stake.user, c.stake.stakeId, c.stake.isUSDC);
+          recordResolution(c, outcome, hash, ethPrice);
+        },
+      });
     }
   }
 
-  // Rule 3: Low ETH for gas → log warning
-  if (balances.eth < config.lowEthThreshold) {
+  // Rule 3: Low ETH for gas → swap USDC for ETH, or warn if that can't be done.
+  // Queued ahead of every other decision — they all need gas. The agent never
+  // holds WETH on purpose: any balance is left from a top-up whose unwrap
+  // failed, so it is unwrapped first and a new swap waits for the next cycle.
+  let strandedWeth = 0n;
+  try {
+    strandedWeth = await getTokenBalance(config.weth);
+  } catch (e: any) {
+    console.log(`[decisions] WETH balance read failed: ${e.message}`);
+  }
+  if (strandedWeth > 0n) {
+    decisions.unshift({
+      action: "weth_unwrap",
+      reason: `${formatEther(strandedWeth)} WETH left from an earlier gas top-up → unwrapping`,
+      execute: async () => {
+        const unwrapped = await unwrapWeth();
+        if (unwrapped) {
+          logAction("weth_unwrap", `Unwrapped ${formatEther(unwrapped.amount)} WETH left from an earlier gas top-up`, unwrapped.hash, unwrapped.amount, "ETH");
+        }
+      },
+    });
+  } else if (lowEth) {
+    const topUp = await planGasTopUp(balances.aaveUsdc, state.venues);
+    if (typeof topUp === "string") {
+      decisions.unshift({
+        action: "low_eth_warning",
+        reason: `ETH balance (${balances.ethFormatted}) below threshold — need gas, can't top up: ${topUp}`,
+        execute: async () => {
+          logAction("warning", `Low ETH: ${balances.ethFormatted}. Agent needs gas top-up (${topUp}).`);
+        },
+      });
+    } else {
+      decisions.unshift({
+        action: "gas_topup",
+        reason: `ETH balance (${balances.ethFormatted}) below threshold → swapping ${formatUnits(topUp.amount, 6)} USDC for ≥ ${formatEther(topUp.minOut)} ETH`,
+        execute: async () => {
+          try {
+            for (const { venue, amount } of topUp.withdrawals) {
+              const hash = await venue.withdraw(amount);
+              logAction(venue.actions.withdraw, `Withdrew ${formatUnits(amount, 6)} USDC from ${venue.name} for gas top-up`, hash, amount);
+              await syncVenuePosition(venue, -amount);
+            }
+            const { hash, ethOut } = await swapUsdcForEth(topUp.amount, topUp.minOut);
+            logAction("gas_topup", `Swapped ${formatUnits(topUp.amount, 6)} USDC for ${formatEther(ethOut)} ETH`, hash, topUp.amount);
+          } catch (e: any) {
+            if (!(e instanceof DryRunHalt)) {
+              logAction("warning", `Low ETH: ${balances.ethFormatted}. Gas top-up failed (${sanitizeError(e)}) — agent needs a manual top-up.`);
+            }
+            throw e;
+          }
+        },
+      });
+    }
+  }
+
+  // Rule 4: Reconcile x402 payments against the token's events and started refunds
+  // against the tx journal, then refund every payer who was charged without being
+  // served. A refund above the x402_refund per-tx limit is left for a manual refund.
+  try {
+    await reconcilePayments();
+  } catch (e: any) {
+    console.log(`[decisions] x402 payment reconciliation failed: ${e.message}`);
+  }
+  reconcileRefunds();
+  const refundCap = config.policyLimits.x402_refund.perTx;
+  for (const p of getRefundsDue()) {
+    if (p.amount > refundCap) {
+      const reason = `refund of ${formatAmount(p.amount)} USDC exceeds POLICY_X402_REFUND_MAX_PER_TX — refund by hand`;
+      if (p.statusReason !== reason) {
+        updatePayment(p.id, "failed", { reason });
+        logAction("x402_refund", `Payment ${p.id} from ${p.payer}: ${reason}`, p.txHash ?? undefined, p.amount, "USDC", false);
+      }
+      continue;
+    }
     decisions.push({
-      action: "low_eth_warning",
-      reason: `ETH balance (${balances.ethFormatted}) below threshold — need gas`,
+      action: "x402_refund",
+      reason: `Payment ${p.id} from ${p.payer} (${formatAmount(p.amount)} USDC, tx ${p.txHash}) didn't serve ${p.resource} → refunding`,
       execute: async () => {
-        logAction("warning", `Low ETH: ${balances.ethFormatted}. Agent needs gas top-up.`);
+        if (!beginRefund(p.id)) return;
+        let hash: Hex;
+        try {
+          hash = await transferToken(p.asset as Address, p.payer as Address, p.amount, refundLabel(p.id));
+        } catch (e) {
+          reconcileRefund(p);
+          throw e;
+        }
+        updatePayment(p.id, "refunded", { reason: `refunded in ${hash}`, refundTxHash: hash });
+        logAction("x402_refund", `Refunded ${formatAmount(p.amount)} USDC to ${p.payer} for payment ${p.id}`, hash, p.amount);
       },
     });
   }
 
+  // Rule 5: Publish discipline scores to EAS. Stakers are re-scored at most every
+  // `eas.syncIntervalMs`; writes are capped per cycle (the rest follow next cycle)
+  // and by the EAS gas budget in the policy engine.
+  const lastEasSync = parseInt(getState(EAS_SYNC_KEY) ?? "0");
+  if (config.eas.enabled && deployment && Date.now() - lastEasSync >= config.eas.syncIntervalMs) {
+    try {
+      const eas = await planEasWrites(deployment);
+      decisions.push(...eas.decisions);
+      if (eas.complete) setState(EAS_SYNC_KEY, String(Date.now()));
+    } catch (e: any) {
+      console.log(`[decisions] EAS sync failed: ${e.message}`);
+    }
+  }
+
   return decisions;
 }
 
+/** This cycle's EAS writes. `complete` is false while registration or capped writes are still outstanding. */
+async function planEasWrites(deployment: ProofwellDeployment): Promise<{ decisions: Decision[]; complete: boolean }> {
+  if (!(await isSchemaRegistered())) {
+    return {
+      complete: false,
+      decisions: [{
+        action: "eas_register_schema",
+        reason: `Proofwell attestation schema ${EAS_SCHEMA_UID} isn't registered → registering`,
+        execute: async () => {
+          const hash = await registerSchema();
+          logAction("eas_register_schema", `Registered EAS schema ${EAS_SCHEMA_UID}`, hash);
+        },
+      }],
+    };
+  }
+  const spent = getGasCost24h(EAS_ACTIONS);
+  if (spent >= config.eas.gasBudgetPer24h) {
+    console.log(`[decisions] EAS gas budget spent (${formatUnits(spent, 6)} USDC in 24h) — not attesting`);
+    return { decisions: [], complete: false };
+  }
+
+  const stakers = getIndexedStakers();
+  const [stakes, ethPrice] = await Promise.all([getStakesForUsers(stakers), getEthUsdPrice().catch(() => null)]);
+  const byUser = new Map<Address, StakeInfo[]>();
+  for (const s of stakes) byUser.set(s.user, [...(byUser.get(s.user) ?? []), s]);
+  const current = stakers.map(w => buildWalletAttestation(w, byUser.get(w) ?? [], ethPrice, deployment.timing));
+
+  const writes = planAttestations(current, getPublishedAttestations(EAS_SCHEMA_UID), config.eas.minScoreChange);
+  const batch = writes.slice(0, config.eas.maxWritesPerCycle);
+  return { decisions: batch.map(easDecision), complete: batch.length === writes.length };
+}
+
+function easDecision(w: AttestationWrite): Decision {
+  const attest = async (a: Attestation, refUID?: Hex) => {
+    const { uid, hash } = await attestScore(a, refUID);
+    recordEasAttestation({
+      uid,
+      wallet: a.wallet,
+      schemaUid: EAS_SCHEMA_UID,
+      disciplineScore: a.disciplineScore,
+      successRateBps: Math.round(a.successRate * 10_000),
+      txHash: hash,
+    });
+    logAction("eas_attest", `Attested ${a.wallet} discipline score ${a.disciplineScore} on EAS (${uid})`, hash);
+  };
+  const revoke = async (uid: string, wallet: string, why: string) => {
+    const hash = await revokeScore(uid as Hex);
+    recordEasRevocation(uid, hash);
+    logAction("eas_revoke", `Revoked EAS attestation ${uid} for ${wallet} (${why})`, hash);
+  };
+
+  switch (w.kind) {
+    case "attest":
+      return { action: "eas_attest", reason: `${w.attestation.wallet}: ${w.reason}`, execute: () => attest(w.attestation) };
+    case "replace":
+      return {
+        action: "eas_attest",
+        reason: `${w.attestation.wallet}: ${w.reason} → replacing ${w.previous.uid}`,
+        execute: async () => {
+          await attest(w.attestation, w.previous.uid as Hex);
+          await revoke(w.previous.uid, w.previous.wallet, "superseded");
+        },
+      };
+    case "revoke":
+      return {
+        action: "eas_revoke",
+        reason: `${w.previous.wallet}: ${w.reason} → revoking ${w.previous.uid}`,
+        execute: () => revoke(w.previous.uid, w.previous.wallet, w.reason),
+      };
+  }
+}
+
+interface GasTopUpPlan {
+  amount: bigint;
+  minOut: bigint;
+  /** Venue withdrawals needed first when the wallet is short on USDC */
+  withdrawals: AllocationStep[];
+}
+
+/** Work out a USDC → ETH gas top-up, or return why one can't be done */
+async function planGasTopUp(walletUsdc: bigint, venues: VenueState[]): Promise<GasTopUpPlan | string> {
+  const { enabled, amountUsdc, slippageBps } = config.gasTopUp;
+  if (!enabled) return "automatic top-up is disabled";
+
+  const cap = config.policyLimits.gas_swap;
+  const used = getPolicyUsage24h("gas_swap");
+  if (cap && used + amountUsdc > cap.per24h) {
+    return `24h swap cap reached (${formatUnits(used, 6)} of ${formatUnits(cap.per24h, 6)} USDC used)`;
+  }
+
+  let withdrawals: AllocationStep[] = [];
+  if (walletUsdc < amountUsdc) {
+    const shortfall = amountUsdc - walletUsdc;
+    withdrawals = planWithdrawals(venues, shortfall);
+    const covered = withdrawals.reduce((sum, w) => sum + w.amount, 0n);
+    if (covered < shortfall) {
+      return `only ${formatUnits(walletUsdc + covered, 6)} USDC available, need ${formatUnits(amountUsdc, 6)}`;
+    }
+  }
+
+  let quote: bigint;
+  try {
+    quote = await quoteUsdcToEth(amountUsdc);
+  } catch (e: any) {
+    return `swap quote failed: ${sanitizeError(e)}`;
+  }
+  if (quote === 0n) return "swap quote returned no ETH";
+
+  return { amount: amountUsdc, minOut: (quote * (10_000n - slippageBps)) / 10_000n, withdrawals };
+}
+
+function formatAsset(amount: bigint, isUSDC: boolean): string {
+  return isUSDC ? `${formatUnits(amount, 6)} USDC` : `${formatEther(amount)} ETH`;
+}
+
+function describeCandidate(c: ResolutionCandidate): string {
+  const failedDays = c.stake.durationDays - c.stake.successfulDays;
+  const usd = c.revenueUsd !== null ? ` ≈ $${formatUnits(c.revenueUsd, 6)}` : "";
+  return `${c.stake.user.slice(0, 10)}[${c.stake.stakeId}]: ${failedDays} failed days, ~${formatAsset(c.estimated, c.stake.isUSDC)}${usd} to treasury`;
+}
+
+/** Log a resolved stake, compare its payout with the estimate and book the revenue */
+function recordResolution(c: ResolutionCandidate, outcome: ResolutionOutcome, hash: string, ethPrice: PriceQuote | null) {
+  const { user, stakeId, isUSDC } = c.stake;
+  const { estimated } = c;
+  const failedDays = c.stake.durationDays - c.stake.successfulDays;
+  const asset = isUSDC ? "USDC" : "ETH";
+  const paid = outcome.toTreasury;
+  const stakeRef = `${user.slice(0, 10)}[${stakeId}]`;
+  setScheduleStatus(user, stakeId, "resolved");
+
+  if (paid === null) {
+    // No trace of the payout: nothing is booked rather than the estimate
+    logAction("resolve_expired", `Resolved expired stake for ${user}[${stakeId}] — ${failedDays} failed days, treasury payout unknown`, hash, 0n, asset);
+    logAction("resolution_mismatch", `Treasury payout for ${stakeRef} not measurable (no call trace from the RPC; estimated ${formatAsset(estimated, isUSDC)}) — no revenue booked`, hash, 0n, asset, false);
+    return;
+  }
+  logAction("resolve_expired", `Resolved expired stake for ${user}[${stakeId}] — ${failedDays} failed days, ${formatAsset(paid, isUSDC)} to treasury`, hash, paid, asset);
+  if (paid !== estimated) {
+    logAction("resolution_mismatch", `Treasury received ${formatAsset(paid, isUSDC)} for ${stakeRef}, estimated ${formatAsset(estimated, isUSDC)}`, hash, paid, asset, false);
+  }
+
+  if (paid === 0n) return;
+  const revenue = toMicroUsd(paid, isUSDC, ethPrice);
+  if (revenue === null) {
+    logAction("warning", `ETH forfeiture of ${formatAsset(paid, false)} from ${stakeRef} not valued — no ETH/USD price`);
+    return;
+  }
+  const priced = isUSDC ? "" : ` (${formatAsset(paid, false)} @ $${formatUsdPrice(ethPrice!)})`;
+  logRevenue("treasury_slash", revenue, hash, `Forfeiture from ${stakeRef}${priced}`);
+}
+
+/** Stake-asset amount in micro-USDC; ETH needs the oracle price, null without one */
+function toMicroUsd(amount: bigint, isUSDC: boolean, ethPrice: PriceQuote | null): bigint | null {
+  if (isUSDC) return amount;
+  return ethPrice ? weiToMicroUsd(amount, ethPrice) : null;
+}
+
+/** Why no venue would take a deposit, for the skip log */
+function describeBlockedDeposits(venues: VenueState[]): string {
+  const weighted = venues.filter(v => v.weight > 0);
+  if (weighted.length === 0) return "no weighted yield venue is readable";
+  return weighted
+    .map(v => `${v.venue.name}: ${v.health.depositBlocked ?? (v.health.maxDeposit === 0n ? "at capacity" : "amount too small to split")}`)
+    .join("; ");
+}
+
+function describeVenue(v: VenueState): string {
+  const status = v.health.depositBlocked ? `deposits blocked (${v.health.depositBlocked})` : "open";
+  const headroom = v.health.maxDeposit === null ? "uncapped" : `${formatUnits(v.health.maxDeposit, 6)} USDC headroom`;
+  return `- ${v.venue.name}: ${formatUnits(v.position, 6)} USDC, APY ${(v.apy * 100).toFixed(2)}%, weight ${v.weight}, ${status}, ${headroom}, ${v.health.details}`;
+}
+
+const amountParams = {
+  type: "object",
+  properties: {
+    amount_usdc: { type: "number", description: "USDC amount in whole units, e.g. 12.5" },
+    reason: { type: "string", description: "Brief explanation" },
+  },
+  required: ["amount_usdc", "reason"],
+};
+
+/** Tools the rebalancing model may call — exactly one per decision */
+const rebalanceTools = {
+  deposit: {
+    description: "Move USDC from the agent wallet into the yield venues (split by weight and APY)",
+    parameters: amountParams,
+    parse: (args: Record<string, unknown>) => ({
+      amountUsdc: requirePositiveNumber(args, "amount_usdc"),
+      reason: requireString(args, "reason"),
+    }),
+  },
+  withdraw: {
+    description: "Withdraw USDC from the yield venues back to the agent wallet (lowest APY first)",
+    parameters: amountParams,
+    parse: (args: Record<string, unknown>) => ({
+      amountUsdc: requirePositiveNumber(args, "amount_usdc"),
+      reason: requireString(args, "reason"),
+    }),
+  },
+  noop: {
+    description: "Leave the allocation unchanged",
+    parameters: {
+      type: "object",
+      properties: { reason: { type: "string", description: "Brief explanation" } },
+      required: ["reason"],
+    },
+    parse: (args: Record<string, unknown>) => ({ reason: requireString(args, "reason") }),
+  },
+} satisfies Record<string, LlmTool<unknown>>;
+
 /** LLM-powered decision for ambiguous situations (called ~1x/hour) */
 async function llmDecision(): Promise<Decision | null> {
-  if (!config.openaiApiKey) return null;
+  const llm = createLlmProvider();
+  if (!llm) return null;
 
   const lastLlmCall = getState("last_llm_call");
   const now = Date.now();
@@ -150,12 +577,11 @@ async function llmDecision(): Promise<Decision | null> {
   }
 
   const state = await gatherState();
-  const { balances, aavePosition } = state;
+  const { balances, venues, invested } = state;
   const aaveUsdcBalance = balances.aaveUsdc;
-  const totalUsdc = aaveUsdcBalance + aavePosition;
-  const aavePercent = totalUsdc > 0n ? Number((aavePosition * 100n) / totalUsdc) : 0;
-
-  const openai = new OpenAI({ apiKey: config.openaiApiKey });
+  const totalUsdc = aaveUsdcBalance + invested;
+  const investedPercent = totalUsdc > 0n ? Number((invested * 100n) / totalUsdc) : 0;
+  const venueLines = venues.length > 0 ? venues.map(describeVenue).join("\n") : "- (no yield venue data available)";
 
   const prompt = `You are a DeFi treasury agent for Proofwell on Base (${config.network}).
 
@@ -163,78 +589,106 @@ Current state:
 - Wallet ETH: ${balances.ethFormatted}
 - Wallet USDC (Proofwell): ${balances.usdcFormatted}
 - Wallet USDC (Aave): ${formatUnits(aaveUsdcBalance, 6)}
-- Aave aUSDC: ${formatUnits(aavePosition, 6)}
+- Invested in yield venues: ${formatUnits(invested, 6)}
 - Total USDC value: ${formatUnits(totalUsdc, 6)}
-- % in Aave: ${aavePercent}%
+- % invested: ${investedPercent}%
+
+Yield venues:
+${venueLines}
 
 Rules:
 - Keep 20-30% liquid for gas and operations
-- Deposit excess to Aave for yield
-- If Aave position is >80% of total, consider withdrawing some to stay liquid
+- Deposit excess into the yield venues; the agent splits it by weight and APY
+- If more than 80% of the total is invested, consider withdrawing some to stay liquid
 - If total value is very small (<$5), don't bother rebalancing
 
-Should you rebalance? Reply with JSON:
-{"action": "none" | "deposit" | "withdraw", "amount_usdc": number, "reason": "brief explanation"}`;
-
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [{ role: "user", content: prompt }],
-      response_format: { type: "json_object" },
-      max_tokens: 200,
-    });
-
-    logCost("llm", 0.0001, "gpt-4o-mini rebalance decision");
-    setState("last_llm_call", String(now));
+Should you rebalance? Call exactly one tool: deposit, withdraw or noop.`;
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) return null;
-
-    const decision = JSON.parse(content) as {
-      action: string;
-      amount_usdc: number;
-      reason: string;
-    };
+  const audit = { provider: config.llm.provider, model: llm.model, prompt };
+  setState("last_llm_call", String(now));
 
-    if (decision.action === "none") return null;
+  let result;
+  try {
+    result = await llm.callTool(prompt, rebalanceTools);
+  } catch (e: any) {
+    console.log(`[llm] Error: ${e.message}`);
+    logLlmDecision({ ...audit, status: "error", statusReason: e.message });
+    return null;
+  }
 
-    if (typeof decision.amount_usdc !== "number" || !isFinite(decision.amount_usdc) || decision.amount_usdc <= 0) {
-      console.log(`[llm] Invalid amount_usdc: ${decision.amount_usdc}`);
-      return null;
-    }
+  const { call, error, usage } = result;
+  logCost("llm", result.cost, `${llm.model} rebalance decision (${usage.promptTokens}+${usage.completionTokens} tokens)`);
+  const record = (status: LlmDecisionStatus, statusReason?: string) =>
+    logLlmDecision({
+      ...audit,
+      response: result.rawResponse,
+      tool: call?.name,
+      decision: call?.args,
+      status,
+      statusReason,
+      latencyMs: result.latencyMs,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost: result.cost,
+    });
 
-    const amountRaw = BigInt(Math.floor(decision.amount_usdc * 1_000_000));
+  if (!call) {
+    console.log(`[llm] No usable tool call: ${error ?? "model made no tool call"}`);
+    record(error ? "invalid" : "noop", error ?? "model made no tool call");
+    return null;
+  }
+  if (call.name === "noop") {
+    record("noop", call.args.reason);
+    return null;
+  }
 
-    if (decision.action === "deposit" && amountRaw > 0n && amountRaw <= aaveUsdcBalance) {
-      return {
-        action: "llm_deposit",
-        reason: `LLM: ${decision.reason}`,
-        execute: async () => {
-          const hash = await supplyUsdc(amountRaw);
-          logAction("llm_deposit", decision.reason, hash, decision.amount_usdc);
-          const newPos = await getAavePosition();
-          setState("last_aave_position", newPos.toString());
-        },
-      };
-    }
+  const { amountUsdc, reason } = call.args;
+  const amountRaw = BigInt(Math.floor(amountUsdc * 1_000_000));
+  const available = call.name === "deposit" ? aaveUsdcBalance : invested;
+  if (amountRaw <= 0n || amountRaw > available) {
+    const why = `${call.name} of ${amountUsdc} USDC exceeds available ${formatUnits(available, 6)}`;
+    console.log(`[llm] ${why}, ignoring`);
+    record("skipped", why);
+    return null;
+  }
 
-    if (decision.action === "withdraw" && amountRaw > 0n && amountRaw <= aavePosition) {
-      return {
-        action: "llm_withdraw",
-        reason: `LLM: ${decision.reason}`,
-        execute: async () => {
-          const hash = await withdrawUsdc(amountRaw);
-          logAction("llm_withdraw", decision.reason, hash, decision.amount_usdc);
-          const newPos = await getAavePosition();
-          setState("last_aave_position", newPos.toString());
-        },
-      };
-    }
-  } catch (e: any) {
-    console.log(`[llm] Error: ${e.message}`);
+  const plan = call.name === "deposit" ? planDeposits(venues, amountRaw) : planWithdrawals(venues, amountRaw);
+  if (plan.length === 0) {
+    const why = `no yield venue can take a ${call.name} of ${amountUsdc} USDC right now`;
+    console.log(`[llm] ${why}, ignoring`);
+    record("skipped", why);
+    return null;
   }
 
-  return null;
+  const auditId = record("proposed");
+  const action = call.name === "deposit" ? "llm_deposit" : "llm_withdraw";
+  return {
+    action,
+    reason: `LLM: ${reason} (${describePlan(plan)})`,
+    execute: async () => {
+      const done: string[] = [];
+      try {
+        let hash = "";
+        for (const { venue, amount } of plan) {
+          hash = call.name === "deposit" ? await venue.deposit(amount) : await venue.withdraw(amount);
+          logAction(action, `${reason} — ${formatUnits(amount, 6)} USDC ${call.name === "deposit" ? "to" : "from"} ${venue.name}`, hash, amount);
+          done.push(`${venue.id}:${hash}`);
+          await syncVenuePosition(venue, call.name === "deposit" ? amount : -amount);
+        }
+        updateLlmDecisionStatus(auditId, "executed", plan.length > 1 ? done.join(", ") : undefined, hash);
+      } catch (e: any) {
+        const partial = done.length > 0 ? ` (after ${done.join(", ")})` : "";
+        if (e instanceof DryRunHalt) updateLlmDecisionStatus(auditId, "simulated", e.message);
+        else if (e instanceof PolicyViolation) updateLlmDecisionStatus(auditId, "rejected", e.message + partial);
+        else updateLlmDecisionStatus(auditId, "failed", sanitizeError(e) + partial);
+        throw e;
+      }
+    },
+  };
+}
+
+function describePlan(plan: AllocationStep[]): string {
+  return plan.map(({ venue, amount }) => `${formatUnits(amount, 6)} ${venue.name}`).join(", ");
 }
 
 /** Extract a clean error summary from viem or other errors */
@@ -248,6 +702,32 @@ function sanitizeError(e: any): string {
   return msg.slice(0, 120);
 }
 
+/** Execute a decision and log the outcome. In dry-run mode the first tx it
+ *  sends is simulated instead, and the result is logged as a `dry_run` action.
+ *  Later steps (a supply after its approve, a swap after a withdraw) depend on
+ *  that tx's state changes, so they aren't simulated — the log says so. */
+async function executeDecision(d: Decision, executed: string[]) {
+  console.log(`[decide] ${d.action}: ${d.reason}`);
+  try {
+    await d.execute();
+    executed.push(`${d.action}: ${d.reason}`);
+  } catch (e: any) {
+    if (e instanceof DryRunHalt) {
+      console.log(`[decide] ${e.message}`);
+      logAction("dry_run", `${d.action}: ${d.reason} — simulated first step only: ${e.label} (gas ~${e.gas})`);
+      executed.push(`[dry run] ${d.action}: ${d.reason}`);
+      return;
+    }
+    console.error(`[decide] Failed ${d.action}: ${e.message}`);
+    if (e instanceof PolicyViolation) return; // refusal is already in the action log
+    if (config.dryRun) {
+      logAction("dry_run", `${d.action}: simulation FAILED: ${sanitizeError(e)}`, undefined, 0n, "USDC", false);
+    } else {
+      logAction(d.action, `FAILED: ${sanitizeError(e)}`, undefined, 0n, "USDC", false);
+    }
+  }
+}
+
 /** Run one decision cycle */
 export async function runDecisionCycle(): Promise<string[]> {
   const executed: string[] = [];
@@ -255,27 +735,13 @@ export async function runDecisionCycle(): Promise<string[]> {
   // 1. Deterministic rules
   const rules = await deterministicDecisions();
   for (const d of rules) {
-    console.log(`[decide] ${d.action}: ${d.reason}`);
-    try {
-      await d.execute();
-      executed.push(`${d.action}: ${d.reason}`);
-    } catch (e: any) {
-      console.error(`[decide] Failed ${d.action}: ${e.message}`);
-      logAction(d.action, `FAILED: ${sanitizeError(e)}`, undefined, 0, 0, false);
-    }
+    await executeDecision(d, executed);
   }
 
   // 2. LLM fallback (rate-limited)
   const llm = await llmDecision();
   if (llm) {
-    console.log(`[decide] ${llm.action}: ${llm.reason}`);
-    try {
-      await llm.execute();
-      executed.push(`${llm.action}: ${llm.reason}`);
-    } catch (e: any) {
-      console.error(`[decide] Failed ${llm.action}: ${e.message}`);
-      logAction(llm.action, `FAILED: ${sanitizeError(e)}`, undefined, 0, 0, false);
-    }
+    await executeDecision(llm, executed);
   }
 
   if (executed.length === 0) {
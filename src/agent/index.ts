@@ -1,11 +1,14 @@
 import { config } from "../config.js";
-import { agentAddress, getBalances } from "./wallet.js";
+import { agentAddress, getBalances, takeRpcRequestCount } from "./wallet.js";
 import { runDecisionCycle } from "./decision-engine.js";
+import { reconcilePendingTransactions } from "./tx-manager.js";
 import { logAction, logCost, getState, setState } from "./state.js";
+import { startScheduler } from "./scheduler.js";
+import { backfillStakeIndex } from "./indexer.js";
 import { startApiServer } from "../api/server.js";
 
-// Railway $5/mo ≈ $0.007/hr, 12 cycles/hr
-const COMPUTE_COST_PER_CYCLE = 0.0006;
+// Railway $5/mo ≈ $0.007/hr, 12 cycles/hr — in micro-USDC ($0.0006)
+const COMPUTE_COST_PER_CYCLE = 600n;
 
 async function printStatus() {
   const balances = await getBalances();
@@ -18,34 +21,32 @@ async function printStatus() {
   console.log(`Contract: ${config.proofwellContract}`);
   console.log(`Explorer: ${config.explorerUrl}`);
   console.log(`Loop:     every ${config.loopIntervalMs / 1000}s`);
+  console.log(`Mode:     ${config.dryRun ? "DRY RUN (simulating, no broadcasts)" : "live"}`);
   console.log(`=====================================\n`);
 }
 
-let cycleRunning = false;
-
 async function loop() {
-  if (cycleRunning) {
-    console.log("[loop] Previous cycle still running, skipping");
-    return;
-  }
-  cycleRunning = true;
   try {
     const cycleNum = parseInt(getState("cycle_count") ?? "0") + 1;
     setState("cycle_count", String(cycleNum));
 
     console.log(`\n--- Cycle #${cycleNum} @ ${new Date().toISOString()} ---`);
 
+    takeRpcRequestCount(); // drop anything counted between cycles
+    // A nonce an earlier cycle stopped waiting on is settled before new txs queue behind it
+    await reconcilePendingTransactions();
     const actions = await runDecisionCycle();
+    const rpcCalls = takeRpcRequestCount();
     setState("last_cycle", new Date().toISOString());
     setState("last_cycle_actions", String(actions.length));
+    setState("last_cycle_rpc_calls", String(rpcCalls));
+    console.log(`[loop] Cycle #${cycleNum} made ${rpcCalls} RPC requests`);
 
     // Log compute cost every cycle
     logCost("compute", COMPUTE_COST_PER_CYCLE, `Cycle #${cycleNum} compute (Railway)`);
   } catch (e: any) {
     console.error(`[loop] Cycle failed: ${e.message}`);
-    logAction("cycle_error", e.message, undefined, 0, 0, false);
-  } finally {
-    cycleRunning = false;
+    logAction("cycle_error", e.message, undefined, 0n, "USDC", false);
   }
 }
 
@@ -54,16 +55,21 @@ async function main() {
 
   await printStatus();
 
-  logAction("startup", `Agent started at ${agentAddress} on ${config.network}`);
+  logAction("startup", `Agent started at ${agentAddress} on ${config.network}${config.dryRun ? " (dry run)" : ""}`);
 
   // Start API server
   startApiServer();
 
-  // Run first cycle immediately
-  await loop();
+  // Settle anything a previous run left in flight before sending new txs
+  await reconcilePendingTransactions();
+
+  // The stake index backfills alongside the cycles, which use what's indexed so far
+  if (config.proofwellContract !== "0x0000000000000000000000000000000000000000") {
+    backfillStakeIndex().catch(e => console.error("[indexer] Backfill stopped:", e));
+  }
 
-  // Then every N ms
-  setInterval(() => { loop().catch(e => console.error("[loop] Unhandled:", e)); }, config.loopIntervalMs);
+  // First cycle immediately, then every N ms (sooner when a stake expires in between)
+  startScheduler(loop);
 }
 
 main().catch((e) => {
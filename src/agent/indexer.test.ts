@@ -0,0 +1,120 @@
+import { describe, it, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { encodeAbiParameters, encodeEventTopics, keccak256, numberToHex, parseAbiItem, toHex } from "viem";
+import { useTestEnv } from "../test/mock-rpc.js";
+
+const CONTRACT = "0x00000000000000000000000000000000000000C0";
+const rpc = await useTestEnv({
+  NETWORK: "base-sepolia",
+  PROOFWELL_CONTRACT: CONTRACT,
+  PROOFWELL_DEPLOY_BLOCK: "100",
+  LOG_CHUNK_SIZE: "5",
+  INDEXER_REORG_DEPTH: "4",
+  INDEXER_CONFIRMATIONS: "1",
+});
+const { syncStakeIndex, backfillStakeIndex, isStakeIndexCaughtUp } = await import("./indexer.js");
+const { getDb } = await import("./state.js");
+
+const staked = parseAbiItem(
+  "event StakedETHV3(address indexed user, uint256 indexed stakeId, uint256 amount, uint256 goalSeconds, uint256 durationDays, uint256 startTimestamp, uint256 cohortWeek)",
+);
+
+// The chain: a hash per block (a fork renames blocks from its fork point up) and stake logs by block.
+// Head stays put — viem caches eth_blockNumber between calls.
+const head = 121n;
+let fork = 0;
+const forkedFrom = new Map<number, bigint>();
+const stakeBlocks = new Map<bigint, number>();
+
+function hashOf(block: bigint): string {
+  const generation = [...forkedFrom].filter(([, from]) => block >= from).length;
+  return keccak256(toHex(`${block}:${generation}`));
+}
+
+function reorg(from: bigint) {
+  forkedFrom.set(++fork, from);
+  for (const block of [...stakeBlocks.keys()]) if (block >= from) stakeBlocks.delete(block);
+}
+
+rpc
+  .on("eth_chainId", () => numberToHex(84532))
+  .on("eth_blockNumber", () => numberToHex(head))
+  .on("eth_getBlockByNumber", ([block]) => ({
+    number: block,
+    hash: hashOf(BigInt(block)),
+    parentHash: hashOf(BigInt(block) - 1n),
+    timestamp: numberToHex(1_700_000_000n + BigInt(block) * 2n),
+    transactions: [],
+  }))
+  .on("eth_getLogs", ([{ fromBlock, toBlock }]) =>
+    [...stakeBlocks]
+      .filter(([block]) => block >= BigInt(fromBlock) && block <= BigInt(toBlock))
+      .map(([block, stakeId]) => ({
+        address: CONTRACT,
+        topics: encodeEventTopics({ abi: [staked], eventName: "StakedETHV3", args: { user: "0x00000000000000000000000000000000000000a1", stakeId: BigInt(stakeId) } }),
+        data: encodeAbiParameters(
+          [{ type: "uint256" }, { type: "uint256" }, { type: "uint256" }, { type: "uint256" }, { type: "uint256" }],
+          [10n ** 16n, 3600n, 7n, 1_700_000_000n, 1n],
+        ),
+        blockNumber: numberToHex(block),
+        blockHash: hashOf(block),
+        transactionHash: keccak256(toHex(`tx:${block}:${stakeId}`)),
+        transactionIndex: "0x0",
+        logIndex: "0x0",
+        removed: false,
+      })),
+  );
+
+after(() => rpc.close());
+
+function indexedStakes(): Array<[number, number]> {
+  const rows = getDb().prepare(`SELECT stake_id, block_number FROM stakes ORDER BY stake_id`).all() as Array<{ stake_id: number; block_number: number }>;
+  return rows.map(r => [r.stake_id, r.block_number]);
+}
+
+describe("stake indexer", () => {
+  beforeEach(() => {
+    rpc.calls.length = 0;
+  });
+
+  it("backfills from the deploy block up to the confirmed head", async () => {
+    stakeBlocks.set(103n, 0).set(108n, 1).set(117n, 2).set(119n, 3);
+    assert.equal(isStakeIndexCaughtUp(), false);
+
+    await backfillStakeIndex();
+
+    assert.equal(isStakeIndexCaughtUp(), true);
+    assert.deepEqual(indexedStakes(), [[0, 103], [1, 108], [2, 117], [3, 119]]);
+    assert.equal(rpc.callsTo("eth_getLogs")[0][0].fromBlock, numberToHex(100));
+    assert.equal(rpc.callsTo("eth_getLogs").at(-1)![0].toBlock, numberToHex(head - 1n));
+  });
+
+  it("rolls back to the fork point inside the reorg window and re-indexes from there", async () => {
+    // Blocks 118+ are replaced: stake 3 is gone, stake 4 lands in 120
+    reorg(118n);
+    stakeBlocks.set(120n, 4);
+
+    await syncStakeIndex();
+
+    assert.deepEqual(indexedStakes(), [[0, 103], [1, 108], [2, 117], [4, 120]]);
+    assert.equal(rpc.callsTo("eth_getLogs")[0][0].fromBlock, numberToHex(118));
+  });
+
+  it("re-indexes from the deploy block after a reorg deeper than the window", async () => {
+    reorg(101n);
+    stakeBlocks.set(105n, 0);
+
+    await syncStakeIndex();
+
+    assert.deepEqual(indexedStakes(), [[0, 105]]);
+    assert.equal(rpc.callsTo("eth_getLogs")[0][0].fromBlock, numberToHex(100));
+  });
+
+  it("leaves the index alone when the checkpoint is still on the chain", async () => {
+    await syncStakeIndex();
+
+    assert.deepEqual(indexedStakes(), [[0, 105]]);
+    assert.equal(rpc.callsTo("eth_getLogs").length, 0);
+    assert.equal(rpc.callsTo("eth_getBlockByNumber").length, 1);
+  });
+});
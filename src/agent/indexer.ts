@@ -0,0 +1,139 @@
+import { config } from "../config.js";
+import { publicClient } from "./wallet.js";
+import { getStakeEvents } from "../actions/proofwell.js";
+import { getState, setState, saveIndexedStakes, rollbackStakeIndex } from "./state.js";
+
+/**
+ * Proofwell stake indexer
+ *
+ * Backfills StakedETHV3 / StakedUSDCV3 logs from PROOFWELL_DEPLOY_BLOCK into
+ * SQLite in `logChunkSize` ranges, checkpointing after every chunk so a
+ * restart resumes where it left off. The backfill runs in the background from
+ * startup; once it has caught up, each cycle indexes the new blocks. It stays
+ * `indexerConfirmations` blocks behind head.
+ *
+ * The hash of every block in the last `indexerReorgDepth` indexed blocks is
+ * kept. If the checkpoint's hash no longer matches the chain, the window is
+ * walked down to the newest block that still matches and the index is rewound
+ * to it — a reorg deeper than the window rewinds to the deploy block.
+ */
+
+const CHECKPOINT_BLOCK_KEY = "indexer_last_block";
+const BLOCK_HASHES_KEY = "indexer_block_hashes";
+
+// Between backfill attempts after an RPC error
+const BACKFILL_RETRY_MS = 30_000;
+
+let syncing: Promise<number> | null = null;
+let caughtUp = false;
+
+/** Hashes of the indexed blocks in the reorg window, by block number */
+function loadBlockHashes(): Map<bigint, string> {
+  const stored = getState(BLOCK_HASHES_KEY);
+  const entries = stored ? (JSON.parse(stored) as Array<[string, string]>) : [];
+  return new Map(entries.map(([block, hash]) => [BigInt(block), hash]));
+}
+
+function saveBlockHashes(hashes: Map<bigint, string>) {
+  setState(BLOCK_HASHES_KEY, JSON.stringify([...hashes].map(([block, hash]) => [block.toString(), hash])));
+}
+
+async function blockHash(blockNumber: bigint): Promise<string> {
+  const { hash } = await publicClient.getBlock({ blockNumber });
+  return hash;
+}
+
+/** Record the hash of every block in the window ending at `checkpoint` that isn't recorded yet */
+async function recordBlockHashes(checkpoint: bigint) {
+  const floor = checkpoint - config.indexerReorgDepth;
+  const hashes = loadBlockHashes();
+  for (const block of hashes.keys()) if (block <= floor || block > checkpoint) hashes.delete(block);
+
+  const missing: bigint[] = [];
+  for (let block = checkpoint; block > floor && block >= config.proofwellDeployBlock!; block--) {
+    if (!hashes.has(block)) missing.push(block);
+  }
+  const fetched = await Promise.all(missing.map(blockHash));
+  missing.forEach((block, i) => hashes.set(block, fetched[i]));
+  saveBlockHashes(hashes);
+}
+
+/** Rewind the index to the newest recorded block still on the chain. Returns the block to resume after. */
+async function checkForReorg(checkpoint: bigint): Promise<bigint> {
+  const hashes = loadBlockHashes();
+  const recorded = [...hashes.keys()].sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+  if (recorded.length === 0 || hashes.get(checkpoint) === undefined) return checkpoint;
+  // Block hashes chain: if the checkpoint still matches, so does every block below it
+  if ((await blockHash(checkpoint)) === hashes.get(checkpoint)) return checkpoint;
+
+  let safe = config.proofwellDeployBlock! - 1n;
+  for (const block of recorded.slice(1)) {
+    if ((await blockHash(block)) === hashes.get(block)) {
+      safe = block;
+      break;
+    }
+  }
+  const depth = safe < recorded.at(-1)! ? "deeper than the reorg window, re-indexing from the deploy block" : `rolling back to ${safe}`;
+  console.log(`[indexer] Reorg detected at block ${checkpoint} — ${depth}`);
+
+  rollbackStakeIndex(safe);
+  for (const block of recorded) if (block > safe) hashes.delete(block);
+  saveBlockHashes(hashes);
+  setState(CHECKPOINT_BLOCK_KEY, safe.toString());
+  return safe;
+}
+
+async function sync(): Promise<number> {
+  const deployBlock = config.proofwellDeployBlock;
+  if (deployBlock === null) throw new Error("PROOFWELL_DEPLOY_BLOCK is not set");
+
+  const head = (await publicClient.getBlockNumber()) - config.indexerConfirmations;
+  const stored = getState(CHECKPOINT_BLOCK_KEY);
+  let checkpoint = stored ? await checkForReorg(BigInt(stored)) : deployBlock - 1n;
+
+  let indexed = 0;
+  while (checkpoint < head) {
+    const from = checkpoint + 1n;
+    const to = from + config.logChunkSize - 1n < head ? from + config.logChunkSize - 1n : head;
+
+    const events = await getStakeEvents(from, to);
+    saveIndexedStakes(events);
+    setState(CHECKPOINT_BLOCK_KEY, to.toString());
+
+    indexed += events.length;
+    checkpoint = to;
+  }
+  if (checkpoint >= deployBlock) await recordBlockHashes(checkpoint);
+  caughtUp = true;
+
+  if (indexed > 0) {
+    console.log(`[indexer] Indexed ${indexed} new stakes (up to block ${checkpoint})`);
+  }
+  return indexed;
+}
+
+/** Bring the stake index up to the last confirmed block. Returns the number of new stakes indexed.
+ *  Joins a sync already in progress rather than starting a second one. */
+export function syncStakeIndex(): Promise<number> {
+  syncing ??= sync().finally(() => {
+    syncing = null;
+  });
+  return syncing;
+}
+
+/** Whether the index has reached the last confirmed block at least once since startup */
+export function isStakeIndexCaughtUp(): boolean {
+  return caughtUp;
+}
+
+/** Backfill the index in the background, retrying after RPC errors, until it has caught up */
+export async function backfillStakeIndex(): Promise<void> {
+  while (!caughtUp) {
+    try {
+      await syncStakeIndex();
+    } catch (e: any) {
+      console.log(`[indexer] Backfill failed, retrying in ${BACKFILL_RETRY_MS / 1000}s: ${e.message}`);
+      await new Promise(resolve => setTimeout(resolve, BACKFILL_RETRY_MS));
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import OpenAI from "openai";
+import { config } from "../config.js";
+
+/**
+ * LLM provider layer
+ *
+ * Any OpenAI-compatible chat completions endpoint works — OpenAI itself,
+ * a local llama.cpp / Ollama server, or hosted vendors — selected by
+ * `LLM_BASE_URL`, `LLM_MODEL` and `LLM_API_KEY`. The model is given typed
+ * tools and must answer with exactly one tool call; arguments are checked
+ * against the tool's JSON schema (required, unknown and mistyped keys) and
+ * then by its `parse` before the caller ever sees them.
+ */
+
+export interface LlmTool<A> {
+  description: string;
+  /** JSON schema for the tool's arguments */
+  parameters: Record<string, unknown>;
+  /** Validate raw arguments — throws on anything malformed */
+  parse: (args: Record<string, unknown>) => A;
+}
+
+/** Tools by name; `A` maps each name to its parsed arguments */
+export type ToolSet<A> = { [K in keyof A]: LlmTool<A[K]> };
+
+type ToolCalls<A> = { [K in keyof A]: { name: K; args: A[K] } };
+
+export type ToolCallResult<A> = ToolCalls<A>[keyof A];
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCallResult<A> {
+  /** The validated tool call, or null if the model made none or it failed validation */
+  call: ToolCallResult<A> | null;
+  /** Why the tool call was unusable (unknown tool, bad JSON, invalid arguments) */
+  error: string | null;
+  /** Full response body, JSON-encoded, for the audit trail */
+  rawResponse: string;
+  usage: LlmUsage;
+  /** Micro-USD */
+  cost: bigint;
+  latencyMs: number;
+}
+
+export interface LlmProvider {
+  readonly model: string;
+  readonly baseUrl: string;
+  /** Ask the model to pick one of `tools`. Only throws if no response was received. */
+  callTool<A>(prompt: string, tools: ToolSet<A>): Promise<LlmCallResult<A>>;
+}
+
+/** USD per 1M tokens. Matched by longest model-name prefix; anything unlisted
+ *  (e.g. a local model) is priced by LLM_PRICE_INPUT/OUTPUT or treated as free. */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+};
+
+/** Cost in micro-USD — a rate in USD per 1M tokens is micro-USD per token */
+export function priceTokens(model: string, usage: LlmUsage): bigint {
+  const match = Object.keys(MODEL_PRICING)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  const rate = match ? MODEL_PRICING[match] : config.llm.customPricing;
+  return BigInt(Math.round(usage.promptTokens * rate.input + usage.completionTokens * rate.output));
+}
+
+function isToolName<A>(tools: ToolSet<A>, name: string): name is keyof A & string {
+  return Object.hasOwn(tools, name);
+}
+
+function isArgsObject(raw: unknown): raw is Record<string, unknown> {
+  return typeof raw === "object" && raw !== null && !Array.isArray(raw);
+}
+
+function jsonType(val: unknown): string {
+  if (val === null) return "null";
+  if (Array.isArray(val)) return "array";
+  return typeof val;
+}
+
+/** Check arguments against the tool's JSON schema: required keys, no unknown keys, primitive types */
+function checkSchema(name: string, schema: Record<string, unknown>, args: Record<string, unknown>) {
+  const properties = (schema.properties ?? {}) as Record<string, { type?: string }>;
+  const required = (schema.required ?? []) as string[];
+  for (const key of required) {
+    if (!(key in args)) throw new Error(`Tool "${name}" is missing argument "${key}"`);
+  }
+  for (const [key, val] of Object.entries(args)) {
+    const prop = properties[key];
+    if (!prop) throw new Error(`Tool "${name}" got unknown argument "${key}"`);
+    if (!prop.type) continue;
+    const ok = prop.type === "integer" ? Number.isInteger(val) : jsonType(val) === prop.type;
+    if (!ok) throw new Error(`Tool "${name}" argument "${key}" must be ${prop.type}, got ${jsonType(val)}`);
+  }
+}
+
+function parseToolCall<A, K extends keyof A & string>(tools: ToolSet<A>, name: K, argsJson: string): ToolCalls<A>[K] {
+  const tool = tools[name];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(argsJson || "{}");
+  } catch {
+    throw new Error(`Tool "${name}" arguments are not valid JSON`);
+  }
+  if (!isArgsObject(raw)) {
+    throw new Error(`Tool "${name}" arguments must be an object`);
+  }
+  checkSchema(name, tool.parameters, raw);
+
+  return { name, args: tool.parse(raw) };
+}
+
+/** Build the provider from config, or null if no LLM is configured */
+export function createLlmProvider(): LlmProvider | null {
+  if (!config.llm.enabled) return null;
+
+  const { baseUrl, model } = config.llm;
+  // Local servers ignore the key, but the SDK refuses to start without one
+  const client = new OpenAI({ baseURL: baseUrl, apiKey: config.llm.apiKey || "not-needed" });
+
+  return {
+    model,
+    baseUrl,
+    async callTool<A>(prompt: string, tools: ToolSet<A>): Promise<LlmCallResult<A>> {
+      const started = Date.now();
+      const response = await client.chat.completions.create({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        tools: Object.entries<LlmTool<unknown>>(tools).map(([name, tool]) => ({
+          type: "function" as const,
+          function: { name, description: tool.description, parameters: tool.parameters },
+        })),
+        tool_choice: "required",
+        max_tokens: 300,
+      });
+      const latencyMs = Date.now() - started;
+
+      const usage = {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+      };
+
+      let call: ToolCallResult<A> | null = null;
+      let error: string | null = null;
+      const toolCall = response.choices[0]?.message?.tool_calls?.[0];
+      if (toolCall) {
+        const { name, arguments: argsJson } = toolCall.function;
+        try {
+          if (!isToolName(tools, name)) throw new Error(`Model called unknown tool "${name}"`);
+          call = parseToolCall(tools, name, argsJson);
+        } catch (e: any) {
+          error = e.message;
+        }
+      }
+
+      return {
+        call,
+        error,
+        rawResponse: JSON.stringify(response),
+        usage,
+        cost: priceTokens(model, usage),
+        latencyMs,
+      };
+    },
+  };
+}
+
+// Argument validators for tool `parse` functions
+
+export function requirePositiveNumber(args: Record<string, unknown>, key: string): number {
+  const val = args[key];
+  if (typeof val !== "number" || !isFinite(val) || val <= 0) {
+    throw new Error(`${key} must be a positive number, got ${JSON.stringify(val)}`);
+  }
+  return val;
+}
+
+export function requireString(args: Record<string, unknown>, key: string): string {
+  const val = args[key];
+  if (typeof val !== "string" || val.trim() === "") {
+    throw new Error(`${key} must be a non-empty string`);
+  }
+  return val;
+}
@@ -0,0 +1,12 @@
+import { DB_PATH, getDb } from "./state.js";
+import { getSchemaVersion, LATEST_SCHEMA_VERSION } from "./migrations.js";
+
+/** Apply pending agent.db migrations and exit — `npm run migrate` */
+try {
+  const db = getDb();
+  console.log(`[db] ${DB_PATH} is at schema version ${getSchemaVersion(db)} (latest ${LATEST_SCHEMA_VERSION})`);
+  db.close();
+} catch (e: any) {
+  console.error(`[db] Migration failed: ${e.message}`);
+  process.exit(1);
+}
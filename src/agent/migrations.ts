@@ -0,0 +1,408 @@
+import type Database from "better-sqlite3";
+import { parseUnits } from "viem";
+
+/**
+ * Schema migrations for agent.db
+ *
+ * Append new migrations to the end of MIGRATIONS with the next version
+ * number — never edit or reorder one that has shipped. Each migration runs
+ * in its own transaction together with its `schema_version` row, so a
+ * failure leaves the DB at the previous version.
+ *
+ * Migrations 1–7 predate this framework and are written to be idempotent,
+ * so databases created by the old `CREATE TABLE IF NOT EXISTS` bootstrap
+ * adopt versioning without manual steps.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some(c => c.name === column);
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, type: string) {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL DEFAULT (datetime('now')),
+        type TEXT NOT NULL,
+        description TEXT NOT NULL,
+        tx_hash TEXT,
+        amount_usdc REAL DEFAULT 0,
+        amount_eth REAL DEFAULT 0,
+        success INTEGER NOT NULL DEFAULT 1
+      );
+
+      CREATE TABLE IF NOT EXISTS revenue (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL DEFAULT (datetime('now')),
+        source TEXT NOT NULL,
+        amount_usdc REAL NOT NULL,
+        tx_hash TEXT,
+        description TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS costs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL DEFAULT (datetime('now')),
+        category TEXT NOT NULL,
+        amount_usdc REAL NOT NULL,
+        description TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `),
+  },
+  {
+    version: 2,
+    name: "stake_index",
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS stakers (
+        address TEXT PRIMARY KEY,
+        first_seen_block INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS stakes (
+        user TEXT NOT NULL,
+        stake_id INTEGER NOT NULL,
+        asset TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        goal_seconds INTEGER NOT NULL,
+        duration_days INTEGER NOT NULL,
+        start_timestamp INTEGER NOT NULL,
+        cohort_week INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (user, stake_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_stakes_block ON stakes (block_number);
+    `),
+  },
+  {
+    version: 3,
+    name: "costs_tx_hash",
+    up: db => addColumnIfMissing(db, "costs", "tx_hash", "TEXT"),
+  },
+  {
+    version: 4,
+    name: "tx_journal",
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS tx_journal (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        nonce INTEGER NOT NULL,
+        to_address TEXT NOT NULL,
+        data TEXT,
+        value TEXT NOT NULL DEFAULT '0',
+        gas TEXT NOT NULL,
+        max_fee_per_gas TEXT NOT NULL,
+        max_priority_fee_per_gas TEXT NOT NULL,
+        label TEXT NOT NULL,
+        hashes TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        final_hash TEXT,
+        block_number INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tx_journal_status ON tx_journal (status);
+    `),
+  },
+  {
+    version: 5,
+    name: "policy_usage",
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS policy_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL DEFAULT (datetime('now')),
+        action TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        tx_hash TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_policy_usage_action ON policy_usage (action, timestamp);
+    `),
+  },
+  {
+    version: 6,
+    name: "llm_decisions",
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS llm_decisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL DEFAULT (datetime('now')),
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        response TEXT,
+        tool TEXT,
+        decision TEXT,
+        status TEXT NOT NULL,
+        status_reason TEXT,
+        tx_hash TEXT,
+        latency_ms INTEGER,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0
+      );
+    `),
+  },
+  {
+    // REAL money columns → integer base units. Action amounts are TEXT
+    // because wei overflows SQLite's 64-bit INTEGER.
+    version: 7,
+    name: "money_base_units",
+    up: db => {
+      if (!hasColumn(db, "revenue", "amount_usdc")) return;
+
+      const toUnits = (value: number | null, decimals: number) => parseUnits((value ?? 0).toFixed(decimals), decimals);
+
+      db.exec(`
+        ALTER TABLE actions ADD COLUMN amount TEXT NOT NULL DEFAULT '0';
+        ALTER TABLE actions ADD COLUMN asset TEXT;
+        ALTER TABLE revenue ADD COLUMN amount INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE revenue ADD COLUMN asset TEXT NOT NULL DEFAULT 'USDC';
+        ALTER TABLE costs ADD COLUMN amount INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE costs ADD COLUMN asset TEXT NOT NULL DEFAULT 'USDC';
+      `);
+
+      const actions = db.prepare(`SELECT id, amount_usdc, amount_eth FROM actions`).all() as Array<{
+        id: number;
+        amount_usdc: number | null;
+        amount_eth: number | null;
+      }>;
+      const updateAction = db.prepare(`UPDATE actions SET amount = ?, asset = ? WHERE id = ?`);
+      for (const a of actions) {
+        if (a.amount_eth) updateAction.run(toUnits(a.amount_eth, 18).toString(), "ETH", a.id);
+        else if (a.amount_usdc) updateAction.run(toUnits(a.amount_usdc, 6).toString(), "USDC", a.id);
+      }
+
+      for (const table of ["revenue", "costs"]) {
+        const rows = db.prepare(`SELECT id, amount_usdc FROM ${table}`).all() as Array<{ id: number; amount_usdc: number }>;
+        const update = db.prepare(`UPDATE ${table} SET amount = ? WHERE id = ?`);
+        for (const r of rows) update.run(toUnits(r.amount_usdc, 6), r.id);
+      }
+
+      db.exec(`
+        ALTER TABLE actions DROP COLUMN amount_usdc;
+        ALTER TABLE actions DROP COLUMN amount_eth;
+        ALTER TABLE revenue DROP COLUMN amount_usdc;
+        ALTER TABLE costs DROP COLUMN amount_usdc;
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "aave_positions",
+    up: db => db.exec(`
+      CREATE TABLE aave_positions (
+        asset TEXT PRIMARY KEY,
+        scaled_balance TEXT NOT NULL,
+        liquidity_index TEXT NOT NULL,
+        principal TEXT NOT NULL,
+        total_interest TEXT NOT NULL DEFAULT '0',
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      DELETE FROM state WHERE key = 'last_aave_position';
+    `),
+  },
+  {
+    // One position record per yield venue (Aave, ERC-4626 vaults). `units` is
+    // the scaled balance / share count, `unit_index` the ray-scaled price.
+    version: 9,
+    name: "venue_positions",
+    up: db => db.exec(`
+      ALTER TABLE aave_positions RENAME TO venue_positions;
+      ALTER TABLE venue_positions RENAME COLUMN asset TO venue;
+      ALTER TABLE venue_positions RENAME COLUMN scaled_balance TO units;
+      ALTER TABLE venue_positions RENAME COLUMN liquidity_index TO unit_index;
+      UPDATE venue_positions SET venue = 'aave' WHERE venue = 'USDC';
+    `),
+  },
+  {
+    // Resolvable stakes as last evaluated by the resolution policy. USD figures
+    // are micro-USDC, NULL when they couldn't be priced.
+    version: 10,
+    name: "resolution_candidates",
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS resolution_candidates (
+        user TEXT NOT NULL,
+        stake_id INTEGER NOT NULL,
+        asset TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        resolvable_at INTEGER NOT NULL,
+        revenue_usd INTEGER,
+        gas_usd INTEGER,
+        expected_value INTEGER,
+        decision TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        evaluated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (user, stake_id)
+      );
+    `),
+  },
+  {
+    // When each indexed stake becomes resolvable (unix seconds). `pending`
+    // until the agent resolves it (`resolved`) or finds it claimed or empty
+    // on-chain (`settled`).
+    version: 11,
+    name: "stake_schedule",
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS stake_schedule (
+        user TEXT NOT NULL,
+        stake_id INTEGER NOT NULL,
+        resolvable_at INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (user, stake_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_stake_schedule_due ON stake_schedule (status, resolvable_at);
+    `),
+  },
+  {
+    // x402 payment ledger — one row per EIP-3009 authorization (payer + nonce),
+    // which is what makes each authorization single-use. `tx_hash` is set once
+    // the payer has been charged; `checked_at` (unix seconds) is the last
+    // on-chain reconciliation of an unsettled authorization.
+    version: 12,
+    name: "payments",
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS payments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        payer TEXT NOT NULL,
+        nonce TEXT NOT NULL,
+        asset TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        resource TEXT NOT NULL,
+        valid_before INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'verified',
+        status_reason TEXT,
+        tx_hash TEXT,
+        refund_tx_hash TEXT,
+        checked_at INTEGER,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE (payer, nonce)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_payments_status ON payments (status);
+    `),
+  },
+  {
+    // EAS attestations the agent has made, one row per UID. A wallet's
+    // current attestation is its row with revoked_at NULL.
+    version: 13,
+    name: "eas_attestations",
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS eas_attestations (
+        uid TEXT PRIMARY KEY,
+        wallet TEXT NOT NULL,
+        schema_uid TEXT NOT NULL,
+        discipline_score INTEGER NOT NULL,
+        success_rate_bps INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL,
+        attested_at TEXT NOT NULL DEFAULT (datetime('now')),
+        revoked_at TEXT,
+        revoke_tx_hash TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_eas_attestations_wallet ON eas_attestations (wallet, revoked_at);
+    `),
+  },
+  {
+    // The latest signed tx for each journal entry, written before it is
+    // broadcast, so a restart can re-send what a crash may have cut off
+    version: 14,
+    name: "tx_journal_raw_tx",
+    up: db => db.exec(`ALTER TABLE tx_journal ADD COLUMN raw_tx TEXT`),
+  },
+  {
+    // LLM costs join the other money columns as integer base units (micro-USD)
+    version: 15,
+    name: "llm_decisions_cost_micro_usd",
+    up: db => db.exec(`
+      ALTER TABLE llm_decisions ADD COLUMN cost_micro_usd INTEGER NOT NULL DEFAULT 0;
+      UPDATE llm_decisions SET cost_micro_usd = CAST(ROUND(cost_usd * 1000000) AS INTEGER);
+      ALTER TABLE llm_decisions DROP COLUMN cost_usd;
+    `),
+  },
+  {
+    // Gas costs carry the policy action of their tx, so budgets filter on it instead of the description
+    version: 16,
+    name: "costs_action",
+    up: db => db.exec(`
+      ALTER TABLE costs ADD COLUMN action TEXT;
+      ALTER TABLE tx_journal ADD COLUMN action TEXT;
+      UPDATE costs SET action = CASE
+          WHEN description LIKE 'eas attest %' THEN 'eas_attest'
+          WHEN description LIKE 'eas revoke %' THEN 'eas_revoke'
+          WHEN description LIKE 'eas register schema %' THEN 'eas_register_schema'
+        END
+        WHERE category = 'gas';
+      UPDATE tx_journal SET action = CASE label
+          WHEN 'eas attest' THEN 'eas_attest'
+          WHEN 'eas revoke' THEN 'eas_revoke'
+          WHEN 'eas register schema' THEN 'eas_register_schema'
+        END;
+      CREATE INDEX IF NOT EXISTS idx_costs_action ON costs (action, timestamp);
+    `),
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: Database.Database): number {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+  const row = db.prepare(`SELECT COALESCE(MAX(version), 0) as version FROM schema_version`).get() as { version: number };
+  return row.version;
+}
+
+/** Apply every pending migration in order. Throws if the DB is newer than this build. */
+export function runMigrations(db: Database.Database): number[] {
+  const current = getSchemaVersion(db);
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `agent.db is at schema version ${current}, but this build only knows up to ${LATEST_SCHEMA_VERSION} — refusing to start`,
+    );
+  }
+
+  const applied: number[] = [];
+  const record = db.prepare(`INSERT INTO schema_version (version, name) VALUES (?, ?)`);
+  for (const m of MIGRATIONS) {
+    if (m.version <= current) continue;
+    db.transaction(() => {
+      m.up(db);
+      record.run(m.version, m.name);
+    })();
+    console.log(`[db] Applied migration ${m.version} (${m.name})`);
+    applied.push(m.version);
+  }
+  return applied;
+}
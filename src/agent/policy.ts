@@ -0,0 +1,236 @@
+import {
+  type AbiFunction,
+  type Address,
+  decodeFunctionData,
+  formatUnits,
+  isAddressEqual,
+  parseAbiItem,
+  toFunctionSelector,
+} from "viem";
+import { config } from "../config.js";
+import { agentAddress } from "./wallet.js";
+import { logAction, getState, setState, logPolicyUsage, getPolicyUsage24h, isRefundDue, refundPaymentId, getGasCost24h } from "./state.js";
+import { EAS_SCHEMA, EAS_SCHEMA_RESOLVER, EAS_SCHEMA_REVOCABLE, EAS_SCHEMA_UID } from "../actions/eas-schema.js";
+
+/**
+ * Policy engine
+ *
+ * Checked by sendTransaction before anything is signed:
+ * - allowlist: only known (contract, function) pairs may be called
+ * - no native value: the agent never sends ETH directly
+ * - per-tx and rolling 24h amount limits per action type (`config.policyLimits`)
+ * - a rolling 24h gas budget for EAS attestation writes (`config.eas.gasBudgetPer24h`)
+ * - circuit breaker: after `circuitBreakerFailures` consecutive tx failures
+ *   (broadcast rejected, reverted or never mined — not a failed gas estimate),
+ *   everything is refused for `circuitBreakerCooldownMs`
+ *
+ * Every refusal is written to the action log as `policy_refusal`.
+ */
+
+export class PolicyViolation extends Error {
+  constructor(readonly policy: string, message: string) {
+    super(`Policy ${policy}: ${message}`);
+    this.name = "PolicyViolation";
+  }
+}
+
+interface AllowedCall {
+  target: Address;
+  fn: AbiFunction;
+  action: string;
+  /** Name of the argument holding the amount that counts towards limits */
+  amountArg?: string;
+  /** For amounts nested inside struct arguments */
+  amountOf?: (args: Record<string, unknown>) => bigint;
+  /** Extra argument checks — return a reason to refuse. `label` is the tx manager's label for the tx. */
+  validate?: (args: Record<string, unknown>, label: string) => string | null;
+}
+
+function allow(target: Address, signature: string, action: string, opts: Pick<AllowedCall, "amountArg" | "amountOf" | "validate"> = {}): AllowedCall {
+  return { target, fn: parseAbiItem(signature) as AbiFunction, action, ...opts };
+}
+
+interface SwapParams {
+  tokenIn: Address;
+  tokenOut: Address;
+  recipient: Address;
+  amountIn: bigint;
+  amountOutMinimum: bigint;
+}
+
+function isPayee(address: Address): boolean {
+  return [agentAddress, ...config.x402.payees].some(payee => isAddressEqual(payee, address));
+}
+
+interface EasRequest {
+  schema: `0x${string}`;
+  data: { value: bigint; revocable?: boolean };
+}
+
+/** Actions whose gas counts towards the EAS budget */
+export const EAS_ACTIONS = ["eas_attest", "eas_revoke", "eas_register_schema"] as const;
+
+/** EAS writes share a rolling 24h gas budget — they're optional, so they stop before they get expensive */
+function easRequest(args: Record<string, unknown>): string | null {
+  const request = args.request as EasRequest;
+  if (request.schema !== EAS_SCHEMA_UID) return `schema ${request.schema} is not the Proofwell schema`;
+  if (request.data.value !== 0n) return "EAS requests must not carry value";
+  if (request.data.revocable === false) return "attestations must be revocable";
+  const spent = getGasCost24h(EAS_ACTIONS);
+  if (spent >= config.eas.gasBudgetPer24h) {
+    return `24h EAS gas budget spent (${formatUnits(spent, 6)} of ${formatUnits(config.eas.gasBudgetPer24h, 6)} USDC)`;
+  }
+  return null;
+}
+
+const ALLOWED_CALLS: AllowedCall[] = [
+  allow(config.aaveUsdc, "function approve(address spender, uint256 amount)", "usdc_approve", {
+    validate: args =>
+      [config.aavePool, config.uniswapRouter, ...config.erc4626Vaults.map(v => v.address)].some(s => isAddressEqual(args.spender as Address, s))
+        ? null
+        : `spender ${args.spender} is not the Aave pool, swap router or a configured vault`,
+  }),
+  allow(config.aavePool, "function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)", "aave_supply", {
+    amountArg: "amount",
+  }),
+  allow(config.aavePool, "function withdraw(address asset, uint256 amount, address to)", "aave_withdraw", {
+    amountArg: "amount",
+  }),
+  allow(config.proofwellContract, "function resolveExpiredV3(address user, uint256 stakeId)", "resolve_expired"),
+  allow(
+    config.uniswapRouter,
+    "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)",
+    "gas_swap",
+    {
+      amountOf: args => (args.params as SwapParams).amountIn,
+      validate: args => {
+        const p = args.params as SwapParams;
+        if (!isAddressEqual(p.tokenIn, config.aaveUsdc) || !isAddressEqual(p.tokenOut, config.weth)) return "only USDC → WETH swaps are allowed";
+        if (!isAddressEqual(p.recipient, agentAddress)) return `recipient ${p.recipient} is not the agent`;
+        if (p.amountOutMinimum === 0n) return "swap has no slippage protection";
+        return null;
+      },
+    },
+  ),
+  allow(config.weth, "function withdraw(uint256 wad)", "weth_unwrap", { amountArg: "wad" }),
+  ...[config.x402.asset, ...config.x402.extraAssets].flatMap(asset => [
+    allow(
+      asset.address,
+      "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+      "x402_settle",
+      { validate: args => isPayee(args.to as Address) ? null : `payment recipient ${args.to} is not the agent or a configured payee` },
+    ),
+    // Plain transfers of a payment token only refund a payer the ledger says was charged without being
+    // served — the payment is named by the tx label, and the transfer must match it exactly
+    allow(asset.address, "function transfer(address to, uint256 amount)", "x402_refund", {
+      amountArg: "amount",
+      validate: (args, label) => {
+        const id = refundPaymentId(label);
+        if (id === null) return `"${label}" is not a refund of a payment`;
+        return isRefundDue(id, asset.address, args.to as Address, args.amount as bigint) ? null : `payment ${id} is not due a refund of ${args.amount} to ${args.to}`;
+      },
+    }),
+  ]),
+  allow(
+    config.eas.address,
+    "function attest((bytes32 schema, (address recipient, uint64 expirationTime, bool revocable, bytes32 refUID, bytes data, uint256 value) data) request)",
+    "eas_attest",
+    { validate: easRequest },
+  ),
+  allow(config.eas.address, "function revoke((bytes32 schema, (bytes32 uid, uint256 value) data) request)", "eas_revoke", {
+    validate: easRequest,
+  }),
+  allow(config.eas.schemaRegistry, "function register(string schema, address resolver, bool revocable)", "eas_register_schema", {
+    validate: args =>
+      args.schema === EAS_SCHEMA && isAddressEqual(args.resolver as Address, EAS_SCHEMA_RESOLVER) && args.revocable === EAS_SCHEMA_REVOCABLE
+        ? null
+        : "only the Proofwell attestation schema may be registered",
+  }),
+  ...config.erc4626Vaults.flatMap(vault => [
+    allow(vault.address, "function deposit(uint256 assets, address receiver)", "vault_deposit", {
+      amountArg: "assets",
+      validate: args => isAddressEqual(args.receiver as Address, agentAddress) ? null : `receiver ${args.receiver} is not the agent`,
+    }),
+    allow(vault.address, "function withdraw(uint256 assets, address receiver, address owner)", "vault_withdraw", {
+      amountArg: "assets",
+      validate: args => isAddressEqual(args.receiver as Address, agentAddress) ? null : `receiver ${args.receiver} is not the agent`,
+    }),
+  ]),
+];
+
+const FAILURES_KEY = "policy_consecutive_failures";
+const PAUSED_UNTIL_KEY = "policy_paused_until";
+
+export interface PolicyApproval {
+  action: string;
+  amount: bigint;
+}
+
+function refuse(policy: string, message: string): never {
+  console.log(`[policy] Refused (${policy}): ${message}`);
+  logAction("policy_refusal", `${policy}: ${message}`, undefined, 0n, "USDC", false);
+  throw new PolicyViolation(policy, message);
+}
+
+/** Validate a tx against every policy. Throws PolicyViolation (already logged) if refused. */
+export function checkPolicy(tx: { to: Address; data?: `0x${string}`; value?: bigint; label?: string }): PolicyApproval {
+  const pausedUntil = parseInt(getState(PAUSED_UNTIL_KEY) ?? "0");
+  if (Date.now() < pausedUntil) {
+    refuse("circuit_breaker", `execution paused until ${new Date(pausedUntil).toISOString()}`);
+  }
+
+  if ((tx.value ?? 0n) > 0n) {
+    refuse("no_native_value", `tx to ${tx.to} carries ${tx.value} wei`);
+  }
+
+  const selector = tx.data?.slice(0, 10);
+  const rule = ALLOWED_CALLS.find(
+    c => isAddressEqual(c.target, tx.to) && selector === toFunctionSelector(c.fn),
+  );
+  if (!rule || !tx.data) {
+    refuse("allowlist", `call ${selector ?? "0x"} on ${tx.to} is not allowlisted`);
+  }
+
+  const { args } = decodeFunctionData({ abi: [rule.fn], data: tx.data });
+  const named = Object.fromEntries(rule.fn.inputs.map((input, i) => [input.name, (args ?? [])[i]]));
+
+  const invalid = rule.validate?.(named, tx.label ?? "");
+  if (invalid) refuse("allowlist", `${rule.action}: ${invalid}`);
+
+  const amount = rule.amountOf ? rule.amountOf(named) : rule.amountArg ? (named[rule.amountArg] as bigint) : 0n;
+  const limits = config.policyLimits[rule.action];
+  if (limits) {
+    const fmt = (v: bigint) => formatUnits(v, limits.decimals ?? 6);
+    if (amount > limits.perTx) {
+      refuse("per_tx_limit", `${rule.action} of ${fmt(amount)} exceeds ${fmt(limits.perTx)} per tx`);
+    }
+    const used = getPolicyUsage24h(rule.action);
+    if (used + amount > limits.per24h) {
+      refuse("daily_limit", `${rule.action} of ${fmt(amount)} would bring 24h total to ${fmt(used + amount)} (limit ${fmt(limits.per24h)})`);
+    }
+  }
+
+  return { action: rule.action, amount };
+}
+
+/** Count a broadcast tx towards its action's rolling limit */
+export function recordPolicyUsage(approval: PolicyApproval, txHash: string) {
+  if (approval.amount > 0n) logPolicyUsage(approval.action, approval.amount, txHash);
+}
+
+/** Feed a tx outcome into the circuit breaker */
+export function recordTxOutcome(success: boolean) {
+  if (success) {
+    setState(FAILURES_KEY, "0");
+    return;
+  }
+
+  const failures = parseInt(getState(FAILURES_KEY) ?? "0") + 1;
+  setState(FAILURES_KEY, String(failures));
+  if (failures >= config.circuitBreakerFailures) {
+    const until = Date.now() + config.circuitBreakerCooldownMs;
+    setState(PAUSED_UNTIL_KEY, String(until));
+    console.log(`[policy] Circuit breaker tripped after ${failures} consecutive failures`);
+    logAction("circuit_breaker", `Paused after ${failures} consecutive tx failures until ${new Date(until).toISOString()}`, undefined, 0n, "USDC", false);
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { StakeInfo } from "../actions/proofwell.js";
+import type { ResolutionPlanOptions } from "./resolution.js";
+
+// resolution.ts pulls in config through the Proofwell actions; planning itself never touches the key
+process.env.PRIVATE_KEY ??= `0x${"11".repeat(32)}`;
+const { planResolutions } = await import("./resolution.js");
+
+const NOW = 1_000_000n;
+const DAY = 300n;
+
+/** A USDC stake with failed days, resolvable `ago` seconds before NOW; the treasury cut is 40% of `amount` */
+function stake(stakeId: number, amount: bigint, { ago = 0n, isUSDC = true, successfulDays = 5n } = {}): StakeInfo {
+  return {
+    user: "0x00000000000000000000000000000000000000a1",
+    stakeId: BigInt(stakeId),
+    amount,
+    goalSeconds: 3600n,
+    startTimestamp: NOW - ago - 7n * DAY,
+    durationDays: 7n,
+    successfulDays,
+    claimed: false,
+    isUSDC,
+    cohortWeek: 1n,
+  };
+}
+
+// Gas per stake: (21000 + 50000) gas at 1 gwei, ETH at $2000 → $0.142
+function options(overrides: Partial<ResolutionPlanOptions>): ResolutionPlanOptions {
+  return {
+    policy: "always",
+    timing: { secondsPerDay: DAY, resolutionBuffer: 0n },
+    gasPerStake: 50_000n,
+    gasPriceWei: 1_000_000_000n,
+    ethPrice: { priceMicroUsd: 2_000_000_000n, updatedAt: 0 },
+    now: NOW,
+    ...overrides,
+  };
+}
+
+describe("planResolutions", () => {
+  describe("profitable", () => {
+    it("resolves only the stakes whose treasury cut beats their gas", () => {
+      // $1.00, $0.13 and $0.15 cuts against $0.142 of gas each
+      const stakes = [stake(0, 2_500_000n), stake(1, 325_000n), stake(2, 375_000n)];
+      const { candidates, resolve } = planResolutions(stakes, options({ policy: "profitable" }));
+
+      assert.deepEqual(candidates.map(c => c.decision), ["resolve", "skip", "resolve"]);
+      assert.equal(candidates[0].gasUsd, 142_000n);
+      assert.equal(candidates[1].expectedValue, 130_000n - 142_000n);
+      assert.equal(candidates[1].noRevenue, false);
+      assert.deepEqual(resolve.map(c => c.stake.stakeId), [0n, 2n]);
+    });
+
+    it("gives up on stakes with no failed days", () => {
+      const { candidates, resolve } = planResolutions([stake(0, 10_000_000n, { successfulDays: 7n })], options({ policy: "profitable" }));
+
+      assert.equal(candidates[0].decision, "skip");
+      assert.equal(candidates[0].noRevenue, true);
+      assert.equal(resolve.length, 0);
+    });
+
+    it("defers ETH stakes it can't price", () => {
+      const { candidates, resolve } = planResolutions([stake(0, 10n ** 18n, { isUSDC: false })], options({ policy: "profitable", ethPrice: null }));
+
+      assert.equal(candidates[0].decision, "defer");
+      assert.equal(candidates[0].expectedValue, null);
+      assert.equal(candidates[0].noRevenue, false);
+      assert.equal(resolve.length, 0);
+    });
+  });
+
+  describe("always", () => {
+    it("resolves every stake, profitable or not, in order", () => {
+      const stakes = [stake(0, 2_500_000n), stake(1, 125_000n), stake(2, 1_000_000n, { successfulDays: 7n })];
+      const { candidates, resolve } = planResolutions(stakes, options({}));
+
+      assert.ok(candidates.every(c => c.decision === "resolve" && !c.noRevenue));
+      assert.equal(candidates[1].expectedValue, 50_000n - 142_000n);
+      assert.deepEqual(resolve.map(c => c.stake.stakeId), [0n, 1n, 2n]);
+    });
+
+    it("records when each stake became resolvable", () => {
+      const { candidates } = planResolutions([stake(0, 1_000_000n, { ago: 600n })], options({}));
+
+      assert.equal(candidates[0].resolvableAt, NOW - 600n);
+    });
+  });
+});
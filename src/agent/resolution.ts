@@ -0,0 +1,107 @@
+import { formatUnits } from "viem";
+import { stakeEndTime, type StakeInfo, type ProofwellTiming } from "../actions/proofwell.js";
+import { weiToMicroUsd, type PriceQuote } from "../actions/price.js";
+import type { ResolutionPolicy } from "../config.js";
+import type { ResolutionDecision } from "./state.js";
+
+/**
+ * Resolution planning
+ *
+ * Every resolvable stake is priced as expected treasury revenue minus its
+ * share of the gas, then the configured policy decides what happens to it:
+ * - always: resolve everything (users get their stakes back promptly)
+ * - profitable: resolve only stakes whose expected value is positive. A
+ *   stake with no failed days pays the treasury nothing and never will, so
+ *   it is marked to leave the schedule
+ * Each stake is resolved in a tx of its own.
+ */
+
+export interface ResolutionCandidate {
+  stake: StakeInfo;
+  /** Unix seconds from which resolveExpiredV3 succeeds */
+  resolvableAt: bigint;
+  /** Expected treasury cut, in the stake's asset */
+  estimated: bigint;
+  /** Micro-USDC; null when an ETH amount can't be priced */
+  revenueUsd: bigint | null;
+  gasUsd: bigint | null;
+  expectedValue: bigint | null;
+  decision: ResolutionDecision;
+  reason: string;
+  /** Skipped for good: it can never pay the treasury anything */
+  noRevenue: boolean;
+}
+
+export interface ResolutionPlanOptions {
+  policy: ResolutionPolicy;
+  timing: ProofwellTiming;
+  gasPerStake: bigint;
+  gasPriceWei: bigint;
+  ethPrice: PriceQuote | null;
+  /** Unix seconds */
+  now: bigint;
+}
+
+export interface ResolutionPlan {
+  /** Every candidate with its decision, for the API */
+  candidates: ResolutionCandidate[];
+  /** Candidates to resolve, one tx each */
+  resolve: ResolutionCandidate[];
+}
+
+// Intrinsic gas of a tx
+const TX_BASE_GAS = 21_000n;
+
+/** Estimate only — the contract's payout is decoded from the receipt.
+ *  Assumes 40% of the stake goes to treasury when any day was failed. */
+export function estimateTreasuryCut(stake: StakeInfo): bigint {
+  return stake.durationDays > stake.successfulDays ? (stake.amount * 40n) / 100n : 0n;
+}
+
+function usd(amount: bigint | null): string {
+  return amount === null ? "unpriced" : `$${formatUnits(amount, 6)}`;
+}
+
+function value(stake: StakeInfo, opts: ResolutionPlanOptions): ResolutionCandidate {
+  const gasWei = (TX_BASE_GAS + opts.gasPerStake) * opts.gasPriceWei;
+  const gasUsd = opts.ethPrice ? weiToMicroUsd(gasWei, opts.ethPrice) : null;
+  const estimated = estimateTreasuryCut(stake);
+  const revenueUsd = stake.isUSDC ? estimated : opts.ethPrice ? weiToMicroUsd(estimated, opts.ethPrice) : null;
+  const expectedValue = revenueUsd !== null && gasUsd !== null ? revenueUsd - gasUsd : null;
+  return {
+    stake,
+    resolvableAt: stakeEndTime(stake, opts.timing) + opts.timing.resolutionBuffer,
+    estimated,
+    revenueUsd,
+    gasUsd,
+    expectedValue,
+    decision: "resolve",
+    reason: "",
+    noRevenue: false,
+  };
+}
+
+export function planResolutions(stakes: StakeInfo[], opts: ResolutionPlanOptions): ResolutionPlan {
+  const candidates = stakes.map(stake => value(stake, opts));
+
+  for (const c of candidates) {
+    const figures = `revenue ${usd(c.revenueUsd)}, gas ${usd(c.gasUsd)}`;
+    if (opts.policy === "always") {
+      c.reason = `policy "always" (expected value ${usd(c.expectedValue)})`;
+    } else if (c.estimated === 0n) {
+      c.decision = "skip";
+      c.noRevenue = true;
+      c.reason = "no failed days — nothing goes to the treasury";
+    } else if (c.expectedValue === null) {
+      c.decision = "defer";
+      c.reason = `can't price without an ETH/USD price (${figures})`;
+    } else if (c.expectedValue <= 0n) {
+      c.decision = "skip";
+      c.reason = `unprofitable: expected value ${usd(c.expectedValue)} (${figures})`;
+    } else {
+      c.reason = `profitable: expected value ${usd(c.expectedValue)} (${figures})`;
+    }
+  }
+
+  return { candidates, resolve: candidates.filter(c => c.decision === "resolve") };
+}
@@ -0,0 +1,65 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { useTestEnv } from "../test/mock-rpc.js";
+
+const rpc = await useTestEnv({ LOOP_INTERVAL_MS: "300000" });
+await rpc.close(); // the scheduler only reads the schedule from agent.db
+const { saveIndexedStakes, scheduleIndexedStakes } = await import("./state.js");
+const { startScheduler, getExpiryWake } = await import("./scheduler.js");
+
+const T0 = 1_800_000_000_000;
+// A 1-day stake on 60-second days, resolvable 100s after T0
+const RESOLVABLE_AT = T0 / 1000 + 100;
+
+/** Let the cycle's promise and the scheduler's continuation run */
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe("scheduler", () => {
+  it("wakes for an expiry before the next regular cycle without moving the regular cadence", async () => {
+    mock.timers.enable({ apis: ["setTimeout", "Date"], now: T0 });
+    saveIndexedStakes([
+      {
+        user: "0x00000000000000000000000000000000000000a1",
+        stakeId: 0n,
+        isUSDC: true,
+        amount: 1_000_000n,
+        goalSeconds: 3600n,
+        durationDays: 1n,
+        startTimestamp: BigInt(RESOLVABLE_AT - 60),
+        cohortWeek: 1n,
+        blockNumber: 1n,
+        txHash: `0x${"00".repeat(32)}`,
+        logIndex: 0,
+      },
+    ]);
+    scheduleIndexedStakes(60n, 0n);
+
+    const cycles: number[] = [];
+    startScheduler(async () => {
+      cycles.push(Date.now() - T0);
+    });
+    await settle();
+    assert.deepEqual(cycles, [0]);
+
+    // Once the chain is past the expiry, plus the grace period
+    const wake = (RESOLVABLE_AT + 1) * 1000 + 15_000;
+    assert.equal(getExpiryWake()?.getTime(), wake);
+    mock.timers.tick(wake - T0 - 1);
+    await settle();
+    assert.equal(cycles.length, 1);
+    mock.timers.tick(1);
+    await settle();
+    assert.deepEqual(cycles, [0, wake - T0]);
+    assert.equal(getExpiryWake(), null);
+
+    // The regular cycle still comes loopIntervalMs after the previous regular one
+    mock.timers.tick(300_000 - (wake - T0));
+    await settle();
+    assert.deepEqual(cycles, [0, wake - T0, 300_000]);
+    mock.timers.tick(300_000);
+    await settle();
+    assert.deepEqual(cycles, [0, wake - T0, 300_000, 600_000]);
+
+    mock.timers.reset();
+  });
+});
@@ -0,0 +1,71 @@
+import { config } from "../config.js";
+import { getNextScheduledResolution } from "./state.js";
+
+/**
+ * Cycle scheduler
+ *
+ * Cycles run on a setTimeout chain owned here: the next one is armed when the
+ * last one finishes, so two never overlap. Regular cycles start every
+ * `loopIntervalMs`, counted from the start of the previous regular one (a
+ * cycle that overruns is followed straight away by the next).
+ *
+ * Stake end times are deterministic, so the index gives a schedule of when
+ * each stake becomes resolvable. When the next expiry comes before the next
+ * regular cycle, an extra cycle runs then instead of waiting for it.
+ */
+
+// Block timestamps can trail the wall clock — wake a little late rather than too early
+const EXPIRY_GRACE_MS = 15_000;
+
+let nextRegularAt = 0;
+let wakeAt: Date | null = null;
+
+/**
+ * When to wake for the first pending stake that becomes resolvable after the
+ * cycle started at `cycleStartedAt` (ms) — expiries before that were already
+ * seen by it. Null if there is none.
+ */
+function nextExpiryWake(cycleStartedAt: number): number | null {
+  try {
+    const next = getNextScheduledResolution(BigInt(Math.floor(cycleStartedAt / 1000)));
+    // Resolvable once the chain's clock is strictly past `next`
+    return next === null ? null : (Number(next) + 1) * 1000 + EXPIRY_GRACE_MS;
+  } catch (e: any) {
+    console.error(`[scheduler] Expiry schedule unreadable: ${e.message}`);
+    return null;
+  }
+}
+
+/** Run `cycle` now, then regular cycles every `loopIntervalMs` with expiry wake-ups in between */
+export function startScheduler(cycle: () => Promise<void>) {
+  const run = async (regular: boolean) => {
+    const startedAt = Date.now();
+    if (regular) nextRegularAt = startedAt + config.loopIntervalMs;
+    wakeAt = null;
+    try {
+      await cycle();
+    } catch (e) {
+      console.error("[loop] Unhandled:", e);
+    }
+    arm(startedAt);
+  };
+
+  const arm = (cycleStartedAt: number) => {
+    const expiry = nextExpiryWake(cycleStartedAt);
+    const regular = expiry === null || expiry >= nextRegularAt;
+    const at = regular ? nextRegularAt : expiry;
+    if (!regular) {
+      wakeAt = new Date(Math.max(at, Date.now()));
+      const resolvableAt = new Date(at - EXPIRY_GRACE_MS - 1000);
+      console.log(`[scheduler] Next stake resolvable at ${resolvableAt.toISOString()} — waking at ${wakeAt.toISOString()}`);
+    }
+    setTimeout(() => void run(regular), Math.max(at - Date.now(), 0));
+  };
+
+  void run(true);
+}
+
+/** When the next expiry wake-up fires, null if none is armed */
+export function getExpiryWake(): Date | null {
+  return wakeAt;
+}
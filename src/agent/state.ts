@@ -1,10 +1,12 @@
 import Database from "better-sqlite3";
 import path from "path";
 import fs from "fs";
+import { formatUnits, getAddress, type Address } from "viem";
+import { runMigrations } from "./migrations.js";
 
 // Use /data on Railway (persistent volume), fallback to cwd locally
-const DATA_DIR = fs.existsSync("/data") ? "/data" : process.cwd();
-const DB_PATH = path.join(DATA_DIR, "agent.db");
+const DATA_DIR = process.env.DATA_DIR || (fs.existsSync("/data") ? "/data" : process.cwd());
+export const DB_PATH = path.join(DATA_DIR, "agent.db");
 
 let db: Database.Database;
 
@@ -12,47 +14,31 @@ export function getDb(): Database.Database {
   if (!db) {
     db = new Database(DB_PATH);
     db.pragma("journal_mode = WAL");
-    initSchema(db);
+    runMigrations(db);
   }
   return db;
 }
 
-function initSchema(db: Database.Database) {
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS actions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      timestamp TEXT NOT NULL DEFAULT (datetime('now')),
-      type TEXT NOT NULL,
-      description TEXT NOT NULL,
-      tx_hash TEXT,
-      amount_usdc REAL DEFAULT 0,
-      amount_eth REAL DEFAULT 0,
-      success INTEGER NOT NULL DEFAULT 1
-    );
+// Money
+// Amounts are stored as integer base units: revenue and costs are USD
+// ledgers in micro-USDC (6 decimals); actions carry the base units of the
+// asset they moved. Action amounts are TEXT because wei overflows SQLite's
+// 64-bit INTEGER.
 
-    CREATE TABLE IF NOT EXISTS revenue (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      timestamp TEXT NOT NULL DEFAULT (datetime('now')),
-      source TEXT NOT NULL,
-      amount_usdc REAL NOT NULL,
-      tx_hash TEXT,
-      description TEXT
-    );
+export type Asset = "USDC" | "ETH";
 
-    CREATE TABLE IF NOT EXISTS costs (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      timestamp TEXT NOT NULL DEFAULT (datetime('now')),
-      category TEXT NOT NULL,
-      amount_usdc REAL NOT NULL,
-      description TEXT
-    );
+export const USDC_DECIMALS = 6;
 
-    CREATE TABLE IF NOT EXISTS state (
-      key TEXT PRIMARY KEY,
-      value TEXT NOT NULL,
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-  `);
+const ASSET_DECIMALS: Record<Asset, number> = { USDC: USDC_DECIMALS, ETH: 18 };
+
+/** Convert a floating-point USD figure (e.g. a priced estimate) to micro-USDC, rounded to the nearest unit */
+export function usdToMicro(usd: number): bigint {
+  return BigInt(Math.round(usd * 10 ** USDC_DECIMALS));
+}
+
+/** Exact decimal string for an amount in base units, e.g. 1500000n USDC → "1.5" */
+export function formatAmount(amount: bigint, asset: Asset = "USDC"): string {
+  return formatUnits(amount, ASSET_DECIMALS[asset]);
 }
 
 // Actions
@@ -60,29 +46,28 @@ export function logAction(
   type: string,
   description: string,
   txHash?: string,
-  amountUsdc = 0,
-  amountEth = 0,
+  amount = 0n,
+  asset: Asset = "USDC",
   success = true
 ) {
   getDb()
-    .prepare(
-      `INSERT INTO actions (type, description, tx_hash, amount_usdc, amount_eth, success) VALUES (?, ?, ?, ?, ?, ?)`
-    )
-    .run(type, description, txHash ?? null, amountUsdc, amountEth, success ? 1 : 0);
+    .prepare(`INSERT INTO actions (type, description, tx_hash, amount, asset, success) VALUES (?, ?, ?, ?, ?, ?)`)
+    .run(type, description, txHash ?? null, amount.toString(), amount > 0n ? asset : null, success ? 1 : 0);
 }
 
 // Revenue
-export function logRevenue(source: string, amountUsdc: number, txHash?: string, description?: string) {
+export function logRevenue(source: string, amountMicroUsdc: bigint, txHash?: string, description?: string) {
   getDb()
-    .prepare(`INSERT INTO revenue (source, amount_usdc, tx_hash, description) VALUES (?, ?, ?, ?)`)
-    .run(source, amountUsdc, txHash ?? null, description ?? null);
+    .prepare(`INSERT INTO revenue (source, amount, asset, tx_hash, description) VALUES (?, ?, 'USDC', ?, ?)`)
+    .run(source, amountMicroUsdc, txHash ?? null, description ?? null);
 }
 
 // Costs
-export function logCost(category: string, amountUsdc: number, description?: string) {
+/** `action` is the policy action of the tx a gas cost was paid for */
+export function logCost(category: string, amountMicroUsdc: bigint, description?: string, txHash?: string, action?: string) {
   getDb()
-    .prepare(`INSERT INTO costs (category, amount_usdc, description) VALUES (?, ?, ?)`)
-    .run(category, amountUsdc, description ?? null);
+    .prepare(`INSERT INTO costs (category, amount, asset, description, tx_hash, action) VALUES (?, ?, 'USDC', ?, ?, ?)`)
+    .run(category, amountMicroUsdc, description ?? null, txHash ?? null, action ?? null);
 }
 
 // State KV
@@ -99,14 +84,901 @@ export function setState(key: string, value: string) {
     .run(key, value);
 }
 
+// Stake index
+export interface IndexedStake {
+  user: Address;
+  stakeId: bigint;
+  isUSDC: boolean;
+  amount: bigint;
+  goalSeconds: bigint;
+  durationDays: bigint;
+  startTimestamp: bigint;
+  cohortWeek: bigint;
+  blockNumber: bigint;
+  txHash: string;
+  logIndex: number;
+}
+
+/** Insert indexed stakes and their stakers atomically. Re-indexing the same log is a no-op. */
+export function saveIndexedStakes(stakes: IndexedStake[]) {
+  const db = getDb();
+  const insertStaker = db.prepare(
+    `INSERT INTO stakers (address, first_seen_block) VALUES (?, ?)
+     ON CONFLICT(address) DO UPDATE SET first_seen_block = MIN(first_seen_block, excluded.first_seen_block)`
+  );
+  const insertStake = db.prepare(
+    `INSERT OR REPLACE INTO stakes
+       (user, stake_id, asset, amount, goal_seconds, duration_days, start_timestamp, cohort_week, block_number, tx_hash, log_index)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  db.transaction(() => {
+    for (const s of stakes) {
+      const user = getAddress(s.user);
+      insertStaker.run(user, s.blockNumber);
+      insertStake.run(
+        user,
+        s.stakeId,
+        s.isUSDC ? "USDC" : "ETH",
+        s.amount.toString(),
+        s.goalSeconds,
+        s.durationDays,
+        s.startTimestamp,
+        s.cohortWeek,
+        s.blockNumber,
+        s.txHash,
+        s.logIndex,
+      );
+    }
+  })();
+}
+
+/** Drop everything indexed after `block` (reorg rollback) */
+export function rollbackStakeIndex(block: bigint) {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`DELETE FROM stakes WHERE block_number > ?`).run(block);
+    db.prepare(`DELETE FROM stakers WHERE first_seen_block > ?`).run(block);
+    db.prepare(
+      `DELETE FROM stake_schedule
+       WHERE NOT EXISTS (SELECT 1 FROM stakes WHERE stakes.user = stake_schedule.user AND stakes.stake_id = stake_schedule.stake_id)`
+    ).run();
+  })();
+}
+
+export function getIndexedStakers(): Address[] {
+  const rows = getDb().prepare(`SELECT address FROM stakers ORDER BY first_seen_block, address`).all() as Array<{ address: string }>;
+  return rows.map(r => getAddress(r.address));
+}
+
+// Resolution schedule (unix seconds; a stake is resolvable once now > resolvable_at)
+// `no_revenue`: left out under the "profitable" policy — the stake can't pay the treasury anything
+export type ScheduleStatus = "pending" | "resolved" | "settled" | "no_revenue";
+
+export interface ScheduledStake {
+  user: string;
+  stakeId: bigint;
+  asset: Asset;
+  amount: bigint;
+  resolvableAt: bigint;
+}
+
+/** Schedule every indexed stake; pending entries are re-timed if the timing changed */
+export function scheduleIndexedStakes(secondsPerDay: bigint, resolutionBuffer: bigint) {
+  getDb()
+    .prepare(
+      `INSERT INTO stake_schedule (user, stake_id, resolvable_at)
+       SELECT user, stake_id, start_timestamp + duration_days * ? + ? FROM stakes WHERE true -- WHERE needed before an upsert clause
+       ON CONFLICT(user, stake_id) DO UPDATE SET resolvable_at = excluded.resolvable_at, updated_at = datetime('now')
+       WHERE stake_schedule.status = 'pending' AND stake_schedule.resolvable_at != excluded.resolvable_at`
+    )
+    .run(secondsPerDay, resolutionBuffer);
+}
+
+export function setScheduleStatus(user: string, stakeId: bigint, status: ScheduleStatus) {
+  getDb()
+    .prepare(`UPDATE stake_schedule SET status = ?, updated_at = datetime('now') WHERE user = ? AND stake_id = ?`)
+    .run(status, user, stakeId);
+}
+
+/** Put every stake with `status` back on the schedule */
+export function requeueScheduledStakes(status: ScheduleStatus) {
+  getDb()
+    .prepare(`UPDATE stake_schedule SET status = 'pending', updated_at = datetime('now') WHERE status = ?`)
+    .run(status);
+}
+
+/** Earliest pending resolvable_at at or after `after`, or null */
+export function getNextScheduledResolution(after: bigint): bigint | null {
+  const row = getDb()
+    .prepare(`SELECT MIN(resolvable_at) as next FROM stake_schedule WHERE status = 'pending' AND resolvable_at >= ?`)
+    .safeIntegers()
+    .get(after) as { next: bigint | null };
+  return row.next;
+}
+
+/** Pending stakes with `from <= resolvable_at < until`, soonest first */
+export function getScheduledStakes(opts: { from?: bigint; until?: bigint; limit?: number } = {}): ScheduledStake[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT s.user, s.stake_id, s.resolvable_at, k.asset, k.amount
+       FROM stake_schedule s JOIN stakes k ON k.user = s.user AND k.stake_id = s.stake_id
+       WHERE s.status = 'pending' AND s.resolvable_at >= ? AND s.resolvable_at < ?
+       ORDER BY s.resolvable_at, s.user, s.stake_id
+       LIMIT ?`
+    )
+    .safeIntegers()
+    .all(opts.from ?? 0n, opts.until ?? BigInt(Number.MAX_SAFE_INTEGER), opts.limit ?? -1) as Array<{
+      user: string;
+      stake_id: bigint;
+      resolvable_at: bigint;
+      asset: Asset;
+      amount: string;
+    }>;
+  return rows.map(r => ({
+    user: r.user,
+    stakeId: r.stake_id,
+    asset: r.asset,
+    amount: BigInt(r.amount),
+    resolvableAt: r.resolvable_at,
+  }));
+}
+
+// Stake queries for the API — status and times are derived from the index, the schedule and the
+// last resolution evaluation, so they're only as fresh as the last cycle
+export type StakeStatus = "active" | "in_buffer" | "resolvable" | "resolved" | "settled";
+
+export interface StakeQuery {
+  user?: string;
+  stakeId?: bigint;
+  status?: StakeStatus;
+  asset?: Asset;
+  cohortWeek?: bigint;
+  limit?: number;
+  offset?: number;
+}
+
+export interface StakeView {
+  user: string;
+  stakeId: bigint;
+  asset: Asset;
+  amount: bigint;
+  goalSeconds: bigint;
+  durationDays: bigint;
+  startTimestamp: bigint;
+  cohortWeek: bigint;
+  endTime: bigint;
+  resolvableAt: bigint;
+  status: StakeStatus;
+  blockNumber: bigint;
+  txHash: string;
+  /** Last resolution-policy decision while it was resolvable */
+  resolution: { decision: ResolutionDecision; reason: string; evaluatedAt: string } | null;
+}
+
+const STAKE_VIEW = `
+  WITH timed AS (
+    SELECT k.*,
+      k.start_timestamp + k.duration_days * @secondsPerDay AS end_time,
+      k.start_timestamp + k.duration_days * @secondsPerDay + @resolutionBuffer AS resolvable_at,
+      sc.status AS schedule_status,
+      rc.decision, rc.reason, rc.evaluated_at
+    FROM stakes k
+    LEFT JOIN stake_schedule sc ON sc.user = k.user AND sc.stake_id = k.stake_id
+    LEFT JOIN resolution_candidates rc ON rc.user = k.user AND rc.stake_id = k.stake_id
+  ), view AS (
+    SELECT *, CASE
+      WHEN schedule_status IN ('resolved', 'settled') THEN schedule_status
+      WHEN @now < end_time THEN 'active'
+      WHEN @now <= resolvable_at THEN 'in_buffer'
+      ELSE 'resolvable'
+    END AS status
+    FROM timed
+  )
+  SELECT %COLUMNS% FROM view
+  WHERE (@user IS NULL OR lower(user) = lower(@user))
+    AND (@stakeId IS NULL OR stake_id = @stakeId)
+    AND (@status IS NULL OR status = @status)
+    AND (@asset IS NULL OR asset = @asset)
+    AND (@cohortWeek IS NULL OR cohort_week = @cohortWeek)`;
+
+export function queryStakes(
+  q: StakeQuery,
+  timing: { secondsPerDay: bigint; resolutionBuffer: bigint; now: bigint },
+): { total: number; stakes: StakeView[] } {
+  const db = getDb();
+  const params = {
+    ...timing,
+    user: q.user ?? null,
+    stakeId: q.stakeId ?? null,
+    status: q.status ?? null,
+    asset: q.asset ?? null,
+    cohortWeek: q.cohortWeek ?? null,
+  };
+  const { total } = db.prepare(STAKE_VIEW.replace("%COLUMNS%", "COUNT(*) AS total")).get(params) as { total: number };
+  const rows = db
+    .prepare(`${STAKE_VIEW.replace("%COLUMNS%", "*")} ORDER BY start_timestamp DESC, user, stake_id LIMIT @limit OFFSET @offset`)
+    .safeIntegers()
+    .all({ ...params, limit: q.limit ?? -1, offset: q.offset ?? 0 }) as Array<{
+      user: string;
+      stake_id: bigint;
+      asset: Asset;
+      amount: string;
+      goal_seconds: bigint;
+      duration_days: bigint;
+      start_timestamp: bigint;
+      cohort_week: bigint;
+      end_time: bigint;
+      resolvable_at: bigint;
+      status: StakeStatus;
+      block_number: bigint;
+      tx_hash: string;
+      decision: ResolutionDecision | null;
+      reason: string | null;
+      evaluated_at: string | null;
+    }>;
+
+  return {
+    total,
+    stakes: rows.map(r => ({
+      user: r.user,
+      stakeId: r.stake_id,
+      asset: r.asset,
+      amount: BigInt(r.amount),
+      goalSeconds: r.goal_seconds,
+      durationDays: r.duration_days,
+      startTimestamp: r.start_timestamp,
+      cohortWeek: r.cohort_week,
+      endTime: r.end_time,
+      resolvableAt: r.resolvable_at,
+      status: r.status,
+      blockNumber: r.block_number,
+      txHash: r.tx_hash,
+      // A stale evaluation says nothing about a stake that has since left the resolvable state
+      resolution: r.decision && r.status === "resolvable" ? { decision: r.decision, reason: r.reason!, evaluatedAt: r.evaluated_at! } : null,
+    })),
+  };
+}
+
+export function queryStakers(limit: number, offset: number): {
+  total: number;
+  stakers: Array<{ address: string; firstSeenBlock: number; stakeCount: number; pendingCount: number }>;
+} {
+  const db = getDb();
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM stakers`).get() as { total: number };
+  const stakers = db
+    .prepare(
+      `SELECT s.address, s.first_seen_block AS firstSeenBlock,
+         (SELECT COUNT(*) FROM stakes k WHERE k.user = s.address) AS stakeCount,
+         (SELECT COUNT(*) FROM stake_schedule sc WHERE sc.user = s.address AND sc.status = 'pending') AS pendingCount
+       FROM stakers s
+       ORDER BY s.first_seen_block, s.address
+       LIMIT ? OFFSET ?`
+    )
+    .all(limit, offset) as Array<{ address: string; firstSeenBlock: number; stakeCount: number; pendingCount: number }>;
+  return { total, stakers };
+}
+
+// Yield venue positions (index-based accounting, amounts in base units, index in ray)
+export interface VenuePosition {
+  venue: string;
+  units: bigint;
+  unitIndex: bigint;
+  principal: bigint;
+  totalInterest: bigint;
+  updatedAt: string;
+}
+
+interface VenuePositionRow {
+  venue: string;
+  units: string;
+  unit_index: string;
+  principal: string;
+  total_interest: string;
+  updated_at: string;
+}
+
+function toVenuePosition(row: VenuePositionRow): VenuePosition {
+  return {
+    venue: row.venue,
+    units: BigInt(row.units),
+    unitIndex: BigInt(row.unit_index),
+    principal: BigInt(row.principal),
+    totalInterest: BigInt(row.total_interest),
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getVenuePosition(venue: string): VenuePosition | undefined {
+  const row = getDb().prepare(`SELECT * FROM venue_positions WHERE venue = ?`).get(venue) as VenuePositionRow | undefined;
+  return row ? toVenuePosition(row) : undefined;
+}
+
+export function getVenuePositions(): VenuePosition[] {
+  const rows = getDb().prepare(`SELECT * FROM venue_positions ORDER BY venue`).all() as VenuePositionRow[];
+  return rows.map(toVenuePosition);
+}
+
+export function saveVenuePosition(p: Omit<VenuePosition, "updatedAt">) {
+  getDb()
+    .prepare(
+      `INSERT OR REPLACE INTO venue_positions (venue, units, unit_index, principal, total_interest, updated_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now'))`
+    )
+    .run(p.venue, p.units.toString(), p.unitIndex.toString(), p.principal.toString(), p.totalInterest.toString());
+}
+
+// Resolution candidates — replaced wholesale on every evaluation
+export type ResolutionDecision = "resolve" | "skip" | "defer";
+
+export interface ResolutionCandidateRecord {
+  user: string;
+  stakeId: bigint;
+  asset: Asset;
+  amount: bigint;
+  resolvableAt: bigint;
+  revenueUsd: bigint | null;
+  gasUsd: bigint | null;
+  expectedValue: bigint | null;
+  decision: ResolutionDecision;
+  reason: string;
+}
+
+export function saveResolutionCandidates(candidates: ResolutionCandidateRecord[]) {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT INTO resolution_candidates
+       (user, stake_id, asset, amount, resolvable_at, revenue_usd, gas_usd, expected_value, decision, reason)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  db.transaction(() => {
+    db.prepare(`DELETE FROM resolution_candidates`).run();
+    for (const c of candidates) {
+      insert.run(
+        c.user,
+        c.stakeId,
+        c.asset,
+        c.amount.toString(),
+        c.resolvableAt,
+        c.revenueUsd,
+        c.gasUsd,
+        c.expectedValue,
+        c.decision,
+        c.reason,
+      );
+    }
+  })();
+}
+
+export function getResolutionCandidates(decision?: ResolutionDecision): Array<ResolutionCandidateRecord & { evaluatedAt: string }> {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM resolution_candidates
+       WHERE ? IS NULL OR decision = ?
+       ORDER BY resolvable_at, user, stake_id`
+    )
+    .safeIntegers()
+    .all(decision ?? null, decision ?? null) as Array<{
+      user: string;
+      stake_id: bigint;
+      asset: Asset;
+      amount: string;
+      resolvable_at: bigint;
+      revenue_usd: bigint | null;
+      gas_usd: bigint | null;
+      expected_value: bigint | null;
+      decision: ResolutionDecision;
+      reason: string;
+      evaluated_at: string;
+    }>;
+  return rows.map(r => ({
+    user: r.user,
+    stakeId: r.stake_id,
+    asset: r.asset,
+    amount: BigInt(r.amount),
+    resolvableAt: r.resolvable_at,
+    revenueUsd: r.revenue_usd,
+    gasUsd: r.gas_usd,
+    expectedValue: r.expected_value,
+    decision: r.decision,
+    reason: r.reason,
+    evaluatedAt: r.evaluated_at,
+  }));
+}
+
+// x402 payment ledger — one row per EIP-3009 authorization (payer + nonce)
+// verified: claimed by a request in flight; settled: charged and served;
+// failed: not served (charged if tx_hash is set — a refund is due);
+// refunding: a refund was started and may be in flight; refunded;
+// review: a settlement receipt that doesn't match the authorization — never refunded or re-claimed automatically
+export type PaymentStatus = "verified" | "settled" | "failed" | "refunding" | "refunded" | "review";
+
+export interface PaymentRecord {
+  id: number;
+  payer: string;
+  nonce: string;
+  asset: string;
+  amount: bigint;
+  resource: string;
+  validBefore: bigint;
+  status: PaymentStatus;
+  statusReason: string | null;
+  txHash: string | null;
+  refundTxHash: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PaymentRow {
+  id: bigint;
+  payer: string;
+  nonce: string;
+  asset: string;
+  amount: bigint;
+  resource: string;
+  valid_before: bigint;
+  status: PaymentStatus;
+  status_reason: string | null;
+  tx_hash: string | null;
+  refund_tx_hash: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toPaymentRecord(r: PaymentRow): PaymentRecord {
+  return {
+    id: Number(r.id),
+    payer: r.payer,
+    nonce: r.nonce,
+    asset: r.asset,
+    amount: r.amount,
+    resource: r.resource,
+    validBefore: r.valid_before,
+    status: r.status,
+    statusReason: r.status_reason,
+    txHash: r.tx_hash,
+    refundTxHash: r.refund_tx_hash,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+/**
+ * Claim an authorization for a request. Returns the payment id, or null if
+ * the authorization was already claimed — only a failed attempt that never
+ * charged the payer can be claimed again.
+ */
+export function claimPayment(p: {
+  payer: string;
+  nonce: string;
+  asset: string;
+  amount: bigint;
+  resource: string;
+  validBefore: bigint;
+}): number | null {
+  const row = getDb()
+    .prepare(
+      `INSERT INTO payments (payer, nonce, asset, amount, resource, valid_before)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (payer, nonce) DO UPDATE SET
+         status = 'verified', status_reason = NULL, asset = excluded.asset, amount = excluded.amount,
+         resource = excluded.resource, valid_before = excluded.valid_before, checked_at = NULL,
+         updated_at = datetime('now')
+       WHERE payments.status = 'failed' AND payments.tx_hash IS NULL
+       RETURNING id`
+    )
+    .get(p.payer, p.nonce.toLowerCase(), p.asset, p.amount, p.resource, p.validBefore) as { id: number } | undefined;
+  return row ? row.id : null;
+}
+
+export function updatePayment(id: number, status: PaymentStatus, fields: { reason?: string; txHash?: string; refundTxHash?: string } = {}) {
+  getDb()
+    .prepare(
+      `UPDATE payments SET
+         status = ?, status_reason = ?, tx_hash = COALESCE(?, tx_hash),
+         refund_tx_hash = COALESCE(?, refund_tx_hash), updated_at = datetime('now')
+       WHERE id = ?`
+    )
+    .run(status, fields.reason ?? null, fields.txHash ?? null, fields.refundTxHash ?? null, id);
+}
+
+/**
+ * Unsettled authorizations the payer could still have been charged for:
+ * failed ones, and claims untouched for `staleMinutes` whose request never
+ * finished. Stops returning a payment once it was checked after it expired.
+ */
+export function getPaymentsToReconcile(staleMinutes: number): PaymentRecord[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM payments
+       WHERE tx_hash IS NULL
+         AND (status = 'failed' OR (status = 'verified' AND updated_at <= datetime('now', ?)))
+         AND (checked_at IS NULL OR checked_at <= valid_before)
+       ORDER BY id`
+    )
+    .safeIntegers()
+    .all(`-${staleMinutes} minutes`) as PaymentRow[];
+  return rows.map(toPaymentRecord);
+}
+
+/** Record that these payments' authorizations were still unused at `at` (unix seconds) */
+export function markPaymentsChecked(ids: number[], at: bigint) {
+  const db = getDb();
+  const update = db.prepare(`UPDATE payments SET checked_at = ? WHERE id = ?`);
+  db.transaction(() => {
+    for (const id of ids) update.run(at, id);
+  })();
+}
+
+/** Payments that charged the payer without serving the request */
+export function getRefundsDue(): PaymentRecord[] {
+  const rows = getDb()
+    .prepare(`SELECT * FROM payments WHERE status = 'failed' AND tx_hash IS NOT NULL ORDER BY id`)
+    .safeIntegers()
+    .all() as PaymentRow[];
+  return rows.map(toPaymentRecord);
+}
+
+/**
+ * Mark a due refund as started, before it is sent. Returns false if the payment
+ * is no longer due one — a refund is never started twice for the same payment.
+ */
+export function beginRefund(id: number): boolean {
+  const result = getDb()
+    .prepare(
+      `UPDATE payments SET status = 'refunding', updated_at = datetime('now')
+       WHERE id = ? AND status = 'failed' AND tx_hash IS NOT NULL`
+    )
+    .run(id);
+  return result.changes > 0;
+}
+
+/** Refunds that were started but not confirmed */
+export function getRefundsInFlight(): PaymentRecord[] {
+  const rows = getDb()
+    .prepare(`SELECT * FROM payments WHERE status = 'refunding' ORDER BY id`)
+    .safeIntegers()
+    .all() as PaymentRow[];
+  return rows.map(toPaymentRecord);
+}
+
+/** Tx journal label of a payment's refund — ties each refund tx to its ledger row */
+export function refundLabel(paymentId: number): string {
+  return `x402 refund #${paymentId}`;
+}
+
+/** The payment a refund tx label is for, or null if it isn't a refund label */
+export function refundPaymentId(label: string): number | null {
+  const match = /^x402 refund #(\d+)$/.exec(label);
+  return match ? Number(match[1]) : null;
+}
+
+/** Whether payment `id` has a started refund of exactly `amount` of `asset` to `payer` */
+export function isRefundDue(id: number, asset: string, payer: string, amount: bigint): boolean {
+  const row = getDb()
+    .prepare(`SELECT * FROM payments WHERE id = ? AND status = 'refunding'`)
+    .safeIntegers()
+    .get(id) as PaymentRow | undefined;
+  return (
+    row !== undefined &&
+    row.asset.toLowerCase() === asset.toLowerCase() &&
+    row.payer.toLowerCase() === payer.toLowerCase() &&
+    row.amount === amount
+  );
+}
+
+export function getPayments(q: { status?: PaymentStatus; payer?: string; limit: number; offset: number }): {
+  total: number;
+  payments: PaymentRecord[];
+} {
+  const db = getDb();
+  const where = `WHERE (@status IS NULL OR status = @status) AND (@payer IS NULL OR lower(payer) = lower(@payer))`;
+  const params = { status: q.status ?? null, payer: q.payer ?? null };
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM payments ${where}`).get(params) as { total: number };
+  const rows = db
+    .prepare(`SELECT * FROM payments ${where} ORDER BY id DESC LIMIT @limit OFFSET @offset`)
+    .safeIntegers()
+    .all({ ...params, limit: q.limit, offset: q.offset }) as PaymentRow[];
+  return { total, payments: rows.map(toPaymentRecord) };
+}
+
+// EAS attestations
+export interface PublishedAttestation {
+  uid: string;
+  wallet: string;
+  schemaUid: string;
+  disciplineScore: number;
+  successRateBps: number;
+  txHash: string;
+  attestedAt: string;
+}
+
+export function recordEasAttestation(a: Omit<PublishedAttestation, "attestedAt">) {
+  getDb()
+    .prepare(
+      `INSERT INTO eas_attestations (uid, wallet, schema_uid, discipline_score, success_rate_bps, tx_hash)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(a.uid, a.wallet, a.schemaUid, a.disciplineScore, a.successRateBps, a.txHash);
+}
+
+export function recordEasRevocation(uid: string, txHash: string) {
+  getDb()
+    .prepare(`UPDATE eas_attestations SET revoked_at = datetime('now'), revoke_tx_hash = ? WHERE uid = ?`)
+    .run(txHash, uid);
+}
+
+/** Unrevoked attestations under `schemaUid` */
+export function getPublishedAttestations(schemaUid: string): PublishedAttestation[] {
+  const rows = getDb()
+    .prepare(`SELECT * FROM eas_attestations WHERE schema_uid = ? AND revoked_at IS NULL ORDER BY attested_at, rowid`)
+    .all(schemaUid) as Array<{
+      uid: string;
+      wallet: string;
+      schema_uid: string;
+      discipline_score: number;
+      success_rate_bps: number;
+      tx_hash: string;
+      attested_at: string;
+    }>;
+  return rows.map(r => ({
+    uid: r.uid,
+    wallet: r.wallet,
+    schemaUid: r.schema_uid,
+    disciplineScore: r.discipline_score,
+    successRateBps: r.success_rate_bps,
+    txHash: r.tx_hash,
+    attestedAt: r.attested_at,
+  }));
+}
+
+// Transaction journal
+/** unsent: the broadcast was rejected and the nonce never used; abandoned: the nonce was
+ *  cancelled with a self-transfer after `txMaxReplacements` */
+export type TxJournalStatus = "pending" | "confirmed" | "reverted" | "dropped" | "unsent" | "abandoned";
+
+export interface TxJournalEntry {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  nonce: number;
+  to_address: string;
+  data: string | null;
+  value: string;
+  gas: string;
+  max_fee_per_gas: string;
+  max_priority_fee_per_gas: string;
+  label: string;
+  /** JSON array of every hash broadcast for this nonce, oldest first */
+  hashes: string;
+  status: TxJournalStatus;
+  final_hash: string | null;
+  block_number: number | null;
+  /** Latest signed tx for this nonce */
+  raw_tx: string | null;
+  /** Policy action the tx was approved as — null on entries from before it was recorded */
+  action: string | null;
+}
+
+export function insertTxJournal(entry: {
+  nonce: number;
+  to: string;
+  data?: string;
+  value: bigint;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  label: string;
+  action: string;
+  hash: string;
+  rawTx: string;
+}): number {
+  const result = getDb()
+    .prepare(
+      `INSERT INTO tx_journal (nonce, to_address, data, value, gas, max_fee_per_gas, max_priority_fee_per_gas, label, action, hashes, raw_tx)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      entry.nonce,
+      entry.to,
+      entry.data ?? null,
+      entry.value.toString(),
+      entry.gas.toString(),
+      entry.maxFeePerGas.toString(),
+      entry.maxPriorityFeePerGas.toString(),
+      entry.label,
+      entry.action,
+      JSON.stringify([entry.hash]),
+      entry.rawTx,
+    );
+  return Number(result.lastInsertRowid);
+}
+
+/** Record a replacement (same nonce, higher fees) before it is broadcast */
+export function recordTxReplacement(id: number, hash: string, maxFeePerGas: bigint, maxPriorityFeePerGas: bigint, rawTx: string) {
+  const db = getDb();
+  const row = db.prepare(`SELECT hashes FROM tx_journal WHERE id = ?`).get(id) as { hashes: string };
+  const hashes = [...JSON.parse(row.hashes), hash];
+  db.prepare(
+    `UPDATE tx_journal SET hashes = ?, max_fee_per_gas = ?, max_priority_fee_per_gas = ?, raw_tx = ?, updated_at = datetime('now')
+     WHERE id = ?`
+  ).run(JSON.stringify(hashes), maxFeePerGas.toString(), maxPriorityFeePerGas.toString(), rawTx, id);
+}
+
+export function finalizeTxJournal(id: number, status: TxJournalStatus, finalHash?: string, blockNumber?: bigint) {
+  getDb()
+    .prepare(`UPDATE tx_journal SET status = ?, final_hash = ?, block_number = ?, updated_at = datetime('now') WHERE id = ?`)
+    .run(status, finalHash ?? null, blockNumber ?? null, id);
+}
+
+/** Every journal entry sent under `label`, oldest first */
+export function getTxJournalByLabel(label: string): TxJournalEntry[] {
+  return getDb()
+    .prepare(`SELECT * FROM tx_journal WHERE label = ? ORDER BY id`)
+    .all(label) as TxJournalEntry[];
+}
+
+export function getPendingTxJournal(): TxJournalEntry[] {
+  return getDb()
+    .prepare(`SELECT * FROM tx_journal WHERE status = 'pending' ORDER BY nonce`)
+    .all() as TxJournalEntry[];
+}
+
+// Policy usage (rolling limits)
+export function logPolicyUsage(action: string, amount: bigint, txHash?: string) {
+  getDb()
+    .prepare(`INSERT INTO policy_usage (action, amount, tx_hash) VALUES (?, ?, ?)`)
+    .run(action, amount.toString(), txHash ?? null);
+}
+
+/** Total amount (base units) sent for an action type in the last 24 hours */
+export function getPolicyUsage24h(action: string): bigint {
+  const rows = getDb()
+    .prepare(`SELECT amount FROM policy_usage WHERE action = ? AND timestamp > datetime('now', '-1 day')`)
+    .all(action) as Array<{ amount: string }>;
+  return rows.reduce((sum, r) => sum + BigInt(r.amount), 0n);
+}
+
+// LLM decision audit trail
+/** proposed → executed | rejected (policy) | failed | simulated (dry run);
+ *  noop, invalid (unusable tool call), skipped (sanity check) and error (no response) are final */
+export type LlmDecisionStatus =
+  | "proposed"
+  | "executed"
+  | "rejected"
+  | "failed"
+  | "simulated"
+  | "noop"
+  | "invalid"
+  | "skipped"
+  | "error";
+
+export function logLlmDecision(entry: {
+  provider: string;
+  model: string;
+  prompt: string;
+  response?: string;
+  tool?: string;
+  decision?: unknown;
+  status: LlmDecisionStatus;
+  statusReason?: string;
+  latencyMs?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  /** Micro-USD */
+  cost?: bigint;
+}): number {
+  const result = getDb()
+    .prepare(
+      `INSERT INTO llm_decisions
+         (provider, model, prompt, response, tool, decision, status, status_reason, latency_ms, prompt_tokens, completion_tokens, cost_micro_usd)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      entry.provider,
+      entry.model,
+      entry.prompt,
+      entry.response ?? null,
+      entry.tool ?? null,
+      entry.decision === undefined ? null : JSON.stringify(entry.decision),
+      entry.status,
+      entry.statusReason ?? null,
+      entry.latencyMs ?? null,
+      entry.promptTokens ?? 0,
+      entry.completionTokens ?? 0,
+      entry.cost ?? 0n,
+    );
+  return Number(result.lastInsertRowid);
+}
+
+export function updateLlmDecisionStatus(id: number, status: LlmDecisionStatus, statusReason?: string, txHash?: string) {
+  getDb()
+    .prepare(`UPDATE llm_decisions SET status = ?, status_reason = ?, tx_hash = ? WHERE id = ?`)
+    .run(status, statusReason ?? null, txHash ?? null, id);
+}
+
+export interface LlmDecisionRecord {
+  id: number;
+  timestamp: string;
+  provider: string;
+  model: string;
+  prompt: string;
+  /** Raw response body, JSON-encoded */
+  response: string | null;
+  tool: string | null;
+  /** Parsed tool arguments */
+  decision: unknown;
+  status: LlmDecisionStatus;
+  statusReason: string | null;
+  txHash: string | null;
+  latencyMs: number | null;
+  promptTokens: number;
+  completionTokens: number;
+  /** Micro-USD */
+  cost: bigint;
+}
+
+interface LlmDecisionRow {
+  id: number;
+  timestamp: string;
+  provider: string;
+  model: string;
+  prompt: string;
+  response: string | null;
+  tool: string | null;
+  decision: string | null;
+  status: LlmDecisionStatus;
+  status_reason: string | null;
+  tx_hash: string | null;
+  latency_ms: number | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_micro_usd: number;
+}
+
+export function getLlmDecisions(limit = 50): LlmDecisionRecord[] {
+  const rows = getDb()
+    .prepare(`SELECT * FROM llm_decisions ORDER BY id DESC LIMIT ?`)
+    .all(limit) as LlmDecisionRow[];
+  return rows.map(r => ({
+    id: r.id,
+    timestamp: r.timestamp,
+    provider: r.provider,
+    model: r.model,
+    prompt: r.prompt,
+    response: r.response,
+    tool: r.tool,
+    decision: r.decision === null ? null : JSON.parse(r.decision),
+    status: r.status,
+    statusReason: r.status_reason,
+    txHash: r.tx_hash,
+    latencyMs: r.latency_ms,
+    promptTokens: r.prompt_tokens,
+    completionTokens: r.completion_tokens,
+    cost: BigInt(r.cost_micro_usd),
+  }));
+}
+
 // Queries
-export function getTotalRevenue(): number {
-  const row = getDb().prepare(`SELECT COALESCE(SUM(amount_usdc), 0) as total FROM revenue`).get() as { total: number };
+// Money queries use safeIntegers() so sums come back as exact bigints.
+export function getTotalRevenue(): bigint {
+  const row = getDb().prepare(`SELECT COALESCE(SUM(amount), 0) as total FROM revenue`).safeIntegers().get() as { total: bigint };
+  return row.total;
+}
+
+/** Gas spent (micro-USDC) in the last 24 hours on txs approved as one of `actions` */
+export function getGasCost24h(actions: readonly string[]): bigint {
+  const row = getDb()
+    .prepare(
+      `SELECT COALESCE(SUM(amount), 0) as total FROM costs
+       WHERE category = 'gas' AND action IN (${actions.map(() => "?").join(", ")}) AND timestamp > datetime('now', '-1 day')`
+    )
+    .safeIntegers()
+    .get(...actions) as { total: bigint };
   return row.total;
 }
 
-export function getTotalCosts(): number {
-  const row = getDb().prepare(`SELECT COALESCE(SUM(amount_usdc), 0) as total FROM costs`).get() as { total: number };
+export function getTotalCosts(): bigint {
+  const row = getDb().prepare(`SELECT COALESCE(SUM(amount), 0) as total FROM costs`).safeIntegers().get() as { total: bigint };
   return row.total;
 }
 
@@ -116,8 +988,8 @@ export function getRecentActions(limit = 50): Array<{
   type: string;
   description: string;
   tx_hash: string | null;
-  amount_usdc: number;
-  amount_eth: number;
+  amount: string;
+  asset: Asset | null;
   success: number;
 }> {
   return getDb()
@@ -128,38 +1000,41 @@ export function getRecentActions(limit = 50): Array<{
 /** Look up resolved stake actions for a wallet address */
 export function getResolvedStakesForWallet(wallet: string): Array<{
   description: string;
-  amount_usdc: number;
+  amount: string;
+  asset: Asset | null;
   tx_hash: string | null;
 }> {
   return getDb()
-    .prepare(`SELECT description, amount_usdc, tx_hash FROM actions WHERE type = 'resolve_expired' AND success = 1 AND description LIKE ?`)
+    .prepare(`SELECT description, amount, asset, tx_hash FROM actions WHERE type = 'resolve_expired' AND success = 1 AND description LIKE ?`)
     .all(`%${wallet.slice(0, 10)}%`) as any;
 }
 
-export function getRevenueBySource(): Array<{ source: string; total: number }> {
+export function getRevenueBySource(): Array<{ source: string; total: bigint }> {
   return getDb()
-    .prepare(`SELECT source, SUM(amount_usdc) as total FROM revenue GROUP BY source ORDER BY total DESC`)
+    .prepare(`SELECT source, SUM(amount) as total FROM revenue GROUP BY source ORDER BY total DESC`)
+    .safeIntegers()
     .all() as any;
 }
 
-export function getCostsByCategory(): Array<{ category: string; total: number }> {
+export function getCostsByCategory(): Array<{ category: string; total: bigint }> {
   return getDb()
-    .prepare(`SELECT category, SUM(amount_usdc) as total FROM costs GROUP BY category ORDER BY total DESC`)
+    .prepare(`SELECT category, SUM(amount) as total FROM costs GROUP BY category ORDER BY total DESC`)
+    .safeIntegers()
     .all() as any;
 }
 
-/** Cumulative revenue + cost snapshots over time for charts */
+/** Cumulative revenue + cost snapshots over time for charts (micro-USDC) */
 export function getFinancialHistory(): Array<{
   timestamp: string;
-  cumulative_revenue: number;
-  cumulative_costs: number;
+  cumulative_revenue: bigint;
+  cumulative_costs: bigint;
 }> {
   // Combine revenue and cost events, ordered by time, with running totals
   const rows = getDb().prepare(`
     WITH events AS (
-      SELECT timestamp, amount_usdc as revenue, 0 as cost FROM revenue
+      SELECT timestamp, amount as revenue, 0 as cost FROM revenue
       UNION ALL
-      SELECT timestamp, 0 as revenue, amount_usdc as cost FROM costs
+      SELECT timestamp, 0 as revenue, amount as cost FROM costs
     )
     SELECT
       timestamp,
@@ -167,6 +1042,6 @@ export function getFinancialHistory(): Array<{
       SUM(cost) OVER (ORDER BY timestamp ROWS UNBOUNDED PRECEDING) as cumulative_costs
     FROM events
     ORDER BY timestamp
-  `).all() as any;
+  `).safeIntegers().all() as any;
   return rows;
 }
@@ -0,0 +1,134 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { type Hash, type Hex, encodeFunctionData, keccak256, numberToHex, parseAbi, parseTransaction } from "viem";
+import { useTestEnv } from "../test/mock-rpc.js";
+
+// One replacement, then a cancellation; every poll is past the replacement deadline
+const rpc = await useTestEnv({ TX_REPLACE_AFTER_MS: "1", TX_MAX_REPLACEMENTS: "1" });
+const { config } = await import("../config.js");
+const { agentAddress } = await import("./wallet.js");
+const { getDb } = await import("./state.js");
+const { sendTransaction, reconcilePendingTransactions } = await import("./tx-manager.js");
+
+after(() => rpc.close());
+
+/** The mock chain: txs are broadcast into a mempool and only mined when a test says so */
+const mempool = new Map<Hash, Hex>();
+const receipts = new Map<Hash, object>();
+let minedNonce = 0;
+// Called on every broadcast; returning true mines that tx straight away
+let mineOnBroadcast: (tx: ReturnType<typeof parseTransaction>, broadcasts: number) => boolean = () => false;
+
+function mine(raw: Hex) {
+  const hash = keccak256(raw);
+  const tx = parseTransaction(raw);
+  minedNonce = tx.nonce! + 1;
+  receipts.set(hash, {
+    transactionHash: hash,
+    transactionIndex: "0x0",
+    blockHash: `0x${"ab".repeat(32)}`,
+    blockNumber: "0x10",
+    from: agentAddress,
+    to: tx.to,
+    cumulativeGasUsed: "0x5208",
+    gasUsed: "0x5208",
+    effectiveGasPrice: "0x3b9aca00",
+    contractAddress: null,
+    logs: [],
+    logsBloom: `0x${"00".repeat(256)}`,
+    status: "0x1",
+    type: "0x2",
+  });
+}
+
+rpc
+  .on("eth_estimateGas", () => "0xc350")
+  .on("eth_maxPriorityFeePerGas", () => "0x3b9aca00")
+  .on("eth_getBlockByNumber", () => ({
+    number: "0x10",
+    hash: `0x${"ab".repeat(32)}`,
+    parentHash: `0x${"aa".repeat(32)}`,
+    timestamp: "0x0",
+    baseFeePerGas: "0x3b9aca00",
+    gasLimit: "0x1c9c380",
+    gasUsed: "0x0",
+    transactions: [],
+  }))
+  .on("eth_getTransactionCount", () => numberToHex(minedNonce))
+  .on("eth_sendRawTransaction", ([raw]: Hex[]) => {
+    const hash = keccak256(raw);
+    mempool.set(hash, raw);
+    if (mineOnBroadcast(parseTransaction(raw), rpc.callsTo("eth_sendRawTransaction").length)) mine(raw);
+    return hash;
+  })
+  .on("eth_getTransactionReceipt", ([hash]: Hash[]) => receipts.get(hash) ?? null)
+  .on("eth_getTransactionByHash", ([hash]: Hash[]) => (mempool.has(hash) ? { hash } : null));
+
+const unwrap = () => ({
+  to: config.weth,
+  data: encodeFunctionData({ abi: parseAbi(["function withdraw(uint256 wad)"]), functionName: "withdraw", args: [1000n] }),
+  label: "unwrap",
+  builderCode: false,
+});
+
+function journal(nonce: number) {
+  return getDb().prepare("SELECT status, hashes, final_hash FROM tx_journal WHERE nonce = ?").get(nonce) as {
+    status: string;
+    hashes: string;
+    final_hash: string | null;
+  };
+}
+
+function gasCost(txHash: string) {
+  return getDb().prepare("SELECT action FROM costs WHERE category = 'gas' AND tx_hash = ?").get(txHash) as { action: string | null };
+}
+
+describe("tx manager", () => {
+  it("replaces a tx that isn't mined in time and settles on the replacement", async () => {
+    const sent = rpc.callsTo("eth_sendRawTransaction").length;
+    mineOnBroadcast = (_, n) => n === sent + 2;
+
+    const receipt = await sendTransaction(unwrap());
+
+    const entry = journal(0);
+    assert.equal(entry.status, "confirmed");
+    assert.equal(JSON.parse(entry.hashes).length, 2);
+    assert.equal(receipt.transactionHash, JSON.parse(entry.hashes)[1]);
+    assert.equal(entry.final_hash, receipt.transactionHash);
+    assert.deepEqual(gasCost(receipt.transactionHash), { action: "weth_unwrap" });
+  });
+
+  it("cancels the nonce after the last replacement and abandons the tx once the cancellation is mined", async () => {
+    mineOnBroadcast = tx => tx.to?.toLowerCase() === agentAddress.toLowerCase();
+
+    await assert.rejects(sendTransaction(unwrap()), /Nonce 1 \(unwrap\) abandoned — cancelled by/);
+
+    const entry = journal(1);
+    assert.equal(entry.status, "abandoned");
+    assert.equal(JSON.parse(entry.hashes).length, 3);
+    assert.equal(entry.final_hash, JSON.parse(entry.hashes)[2]);
+    // The cancellation's gas counts against the action it cancelled
+    assert.deepEqual(gasCost(entry.final_hash!), { action: "weth_unwrap" });
+  });
+
+  it("leaves the entry pending while neither the tx nor its cancellation is mined", async () => {
+    mineOnBroadcast = () => false;
+
+    await assert.rejects(sendTransaction(unwrap()), /Nonce 2 \(unwrap\) not mined after 1 replacements — cancellation 0x[0-9a-f]+ pending/);
+
+    const entry = journal(2);
+    assert.equal(entry.status, "pending");
+    assert.equal(entry.final_hash, null);
+  });
+
+  it("recognises a cancellation mined while the entry was pending", async () => {
+    const [, , cancelHash] = JSON.parse(journal(2).hashes) as Hash[];
+    mine(mempool.get(cancelHash)!);
+
+    await reconcilePendingTransactions();
+
+    const entry = journal(2);
+    assert.equal(entry.status, "abandoned");
+    assert.equal(entry.final_hash, cancelHash);
+  });
+});
@@ -0,0 +1,366 @@
+import { type Address, type Hash, type Hex, type TransactionReceipt, formatEther, isAddressEqual, keccak256 } from "viem";
+import { config } from "../config.js";
+import { publicClient, walletClient, account, chain, agentAddress, getGasCostWei } from "./wallet.js";
+import { getEthUsdPrice, getLastEthUsdPrice, weiToMicroUsd, type PriceQuote } from "../actions/price.js";
+import { appendBuilderCode } from "../actions/builder-codes.js";
+import {
+  logAction,
+  logCost,
+  insertTxJournal,
+  recordTxReplacement,
+  finalizeTxJournal,
+  getPendingTxJournal,
+  type TxJournalEntry,
+} from "./state.js";
+import { checkPolicy, recordPolicyUsage, recordTxOutcome, type PolicyApproval } from "./policy.js";
+
+/**
+ * Transaction manager
+ *
+ * Every agent transaction goes through here:
+ * - nonces are assigned locally, so queued txs never race for the same nonce
+ * - policies (policy.ts) are checked before anything is signed
+ * - each tx is signed locally and written to the `tx_journal` table (with
+ *   its hash and raw bytes) before it is broadcast
+ * - a tx that isn't mined within `txReplaceAfterMs` is re-sent at the same
+ *   nonce with fees bumped by `txFeeBumpPercent`; after `txMaxReplacements`
+ *   the nonce is cancelled with a 0-value self-transfer, and the entry is
+ *   marked abandoned once the cancellation is mined. Until either tx is
+ *   mined the entry stays pending
+ * - pending journal entries are re-broadcast and reconciled against the
+ *   chain on startup and before every cycle sends anything new
+ */
+
+const POLL_INTERVAL_MS = 2_000;
+
+/** Thrown by sendTransaction in dry-run mode once the tx has been simulated successfully.
+ *  Halts the calling action before it can act on a receipt that doesn't exist. */
+export class DryRunHalt extends Error {
+  constructor(
+    readonly label: string,
+    readonly to: Address,
+    readonly gas: bigint,
+    readonly returnData: `0x${string}` | undefined,
+  ) {
+    super(`[dry run] ${label} → ${to} simulated OK (gas ~${gas})`);
+    this.name = "DryRunHalt";
+  }
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+interface TrackedTx {
+  id: number;
+  nonce: number;
+  to: Address;
+  data?: `0x${string}`;
+  value: bigint;
+  gas: bigint;
+  fees: Fees;
+  label: string;
+  /** Policy action it was approved as — gas costs are booked under it */
+  action: string | null;
+  hashes: Hash[];
+}
+
+let nextNonce: number | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Run `fn` once every previously queued broadcast has finished */
+function enqueue<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+async function allocateNonce(): Promise<number> {
+  if (nextNonce === null) {
+    const chainNonce = await publicClient.getTransactionCount({ address: agentAddress, blockTag: "pending" });
+    const journalNonce = Math.max(-1, ...getPendingTxJournal().map(e => e.nonce)) + 1;
+    nextNonce = Math.max(chainNonce, journalNonce);
+  }
+  return nextNonce++;
+}
+
+function bumpFee(fee: bigint): bigint {
+  const bump = (fee * config.txFeeBumpPercent) / 100n;
+  return fee + (bump > 0n ? bump : 1n);
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+type TxBody = Pick<TrackedTx, "to" | "data" | "value" | "gas">;
+
+async function sign(tx: TxBody & { nonce: number; fees: Fees }): Promise<{ hash: Hash; raw: Hex }> {
+  const raw = await account.signTransaction({
+    type: "eip1559",
+    chainId: chain.id,
+    to: tx.to,
+    data: tx.data,
+    value: tx.value,
+    gas: tx.gas,
+    nonce: tx.nonce,
+    maxFeePerGas: tx.fees.maxFeePerGas,
+    maxPriorityFeePerGas: tx.fees.maxPriorityFeePerGas,
+  });
+  return { hash: keccak256(raw), raw };
+}
+
+async function broadcast(raw: Hex) {
+  await walletClient.sendRawTransaction({ serializedTransaction: raw });
+}
+
+/** Whether the node knows a tx — a broadcast that errored (e.g. timed out) may still have landed */
+async function isKnown(hash: Hash): Promise<boolean> {
+  return publicClient.getTransaction({ hash }).then(() => true, () => false);
+}
+
+/** Send transaction with ERC-8021 builder code suffix appended to calldata.
+ *  Waits for on-chain confirmation (speeding up with replacement fees if it
+ *  stalls), records the real gas cost in the cost ledger (reverted txs still
+ *  pay gas) and throws if the tx reverts.
+ *  `builderCode: false` sends the calldata untouched (e.g. token approvals). */
+export async function sendTransaction(tx: {
+  to: Address;
+  data?: `0x${string}`;
+  value?: bigint;
+  label?: string;
+  builderCode?: boolean;
+}): Promise<TransactionReceipt> {
+  const data = tx.builderCode === false
+    ? tx.data
+    : appendBuilderCode(tx.data ?? "0x", config.builderCode);
+  const value = tx.value ?? 0n;
+  const label = tx.label ?? "tx";
+
+  // Policies see the calldata without the builder code suffix
+  const approval = checkPolicy({ to: tx.to, data: tx.data, value, label });
+
+  if (config.dryRun) {
+    // Both calls throw with the revert reason if the tx would fail on-chain
+    const { data: returnData } = await publicClient.call({ account, to: tx.to, data, value });
+    const gas = await publicClient.estimateGas({ account, to: tx.to, data, value });
+    throw new DryRunHalt(label, tx.to, gas, returnData);
+  }
+
+  // Failures before the broadcast (e.g. an expected estimateGas revert) never
+  // reached the chain and don't count towards the circuit breaker
+  const tracked = await submit({ to: tx.to, data, value, label }, approval);
+  try {
+    const receipt = await waitForInclusion(tracked);
+    recordTxOutcome(true);
+    return receipt;
+  } catch (e) {
+    recordTxOutcome(false);
+    throw e;
+  }
+}
+
+async function submit(
+  tx: { to: Address; data?: `0x${string}`; value: bigint; label: string },
+  approval: PolicyApproval,
+): Promise<TrackedTx> {
+  const { data, value, label } = tx;
+  return enqueue(async (): Promise<TrackedTx> => {
+    const gas = await publicClient.estimateGas({ account, to: tx.to, data, value });
+    const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
+    const fees = { maxFeePerGas, maxPriorityFeePerGas };
+    const nonce = await allocateNonce();
+
+    // Journaled before the broadcast: a crash in between leaves a pending entry to re-send
+    const { hash, raw } = await sign({ nonce, to: tx.to, data, value, gas, fees });
+    const id = insertTxJournal({ nonce, to: tx.to, data, value, gas, ...fees, label, action: approval.action, hash, rawTx: raw });
+    try {
+      await broadcast(raw);
+    } catch (e) {
+      if (!(await isKnown(hash))) {
+        finalizeTxJournal(id, "unsent");
+        recordTxOutcome(false);
+        // The nonce may or may not have been consumed — re-read it from the chain next time
+        nextNonce = null;
+        throw e;
+      }
+    }
+
+    console.log(`[tx] submitted ${hash} (nonce ${nonce})`);
+    recordPolicyUsage(approval, hash);
+    return { id, nonce, to: tx.to, data, value, gas, fees, label, action: approval.action, hashes: [hash] };
+  });
+}
+
+async function findReceipt(hashes: Hash[]): Promise<TransactionReceipt | null> {
+  for (const hash of [...hashes].reverse()) {
+    const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => null);
+    if (receipt) return receipt;
+  }
+  return null;
+}
+
+/** Re-send at the same nonce with bumped fees (never below the current network estimate).
+ *  `body` replaces the tx's own call, e.g. with a cancelling self-transfer. */
+async function replace(tx: TrackedTx, body: TxBody = tx): Promise<Hash> {
+  const current = await publicClient.estimateFeesPerGas();
+  const fees = {
+    maxFeePerGas: maxBigInt(bumpFee(tx.fees.maxFeePerGas), current.maxFeePerGas),
+    maxPriorityFeePerGas: maxBigInt(bumpFee(tx.fees.maxPriorityFeePerGas), current.maxPriorityFeePerGas),
+  };
+
+  const { hash, raw } = await sign({ ...body, nonce: tx.nonce, fees });
+  recordTxReplacement(tx.id, hash, fees.maxFeePerGas, fees.maxPriorityFeePerGas, raw);
+  tx.fees = fees;
+  tx.hashes.push(hash);
+  await broadcast(raw);
+  return hash;
+}
+
+/** A 0-value self-transfer that frees a nonce the original tx can't get mined at */
+function cancellation(): TxBody {
+  return { to: agentAddress, data: undefined, value: 0n, gas: 21_000n };
+}
+
+async function settle(tx: TrackedTx, receipt: TransactionReceipt): Promise<TransactionReceipt> {
+  const hash = receipt.transactionHash;
+  finalizeTxJournal(tx.id, receipt.status === "reverted" ? "reverted" : "confirmed", hash, receipt.blockNumber);
+  await recordGasCost(receipt, tx.label, tx.action);
+  if (receipt.status === "reverted") {
+    throw new Error(`Transaction ${hash} reverted on-chain`);
+  }
+
+  console.log(`[tx] confirmed ${hash} (block ${receipt.blockNumber})`);
+  return receipt;
+}
+
+/** The cancellation was mined instead of the tx: it still cost gas */
+async function abandon(tx: TrackedTx, receipt: TransactionReceipt): Promise<never> {
+  finalizeTxJournal(tx.id, "abandoned", receipt.transactionHash, receipt.blockNumber);
+  await recordGasCost(receipt, `${tx.label} cancel`, tx.action);
+  throw new Error(`Nonce ${tx.nonce} (${tx.label}) abandoned — cancelled by ${receipt.transactionHash}`);
+}
+
+async function waitForInclusion(tx: TrackedTx): Promise<TransactionReceipt> {
+  let replacements = tx.hashes.length - 1;
+  let lastBroadcast = Date.now();
+  let cancelHash: Hash | null = null;
+  // A cancellation sent before a restart is only recognisable by its self-transfer
+  const isCancellation = (receipt: TransactionReceipt) =>
+    receipt.transactionHash === cancelHash ||
+    (receipt.to !== null && isAddressEqual(receipt.to, agentAddress) && !isAddressEqual(tx.to, agentAddress));
+  const conclude = (receipt: TransactionReceipt) => (isCancellation(receipt) ? abandon(tx, receipt) : settle(tx, receipt));
+
+  while (true) {
+    const receipt = await findReceipt(tx.hashes);
+    if (receipt) return conclude(receipt);
+
+    const minedNonce = await publicClient.getTransactionCount({ address: agentAddress, blockTag: "latest" });
+    if (minedNonce > tx.nonce) {
+      // A receipt may have landed between the two reads
+      const late = await findReceipt(tx.hashes);
+      if (late) return conclude(late);
+      finalizeTxJournal(tx.id, "dropped");
+      throw new Error(`Nonce ${tx.nonce} (${tx.label}) was used by a transaction outside the journal`);
+    }
+
+    if (Date.now() - lastBroadcast >= config.txReplaceAfterMs) {
+      if (cancelHash) {
+        // Either the tx or its cancellation can still be mined — stop waiting but
+        // leave the entry pending for reconciliation to settle
+        throw new Error(`Nonce ${tx.nonce} (${tx.label}) not mined after ${replacements} replacements — cancellation ${cancelHash} pending`);
+      }
+      if (replacements >= config.txMaxReplacements) {
+        try {
+          cancelHash = await replace(tx, cancellation());
+        } catch (e: any) {
+          // Left pending: the next startup reconciles it again
+          throw new Error(`Nonce ${tx.nonce} (${tx.label}) still pending after ${replacements} replacements, cancellation failed: ${e.shortMessage ?? e.message}`);
+        }
+        console.log(`[tx] nonce ${tx.nonce} (${tx.label}) still pending after ${replacements} replacements — cancelling with ${cancelHash}`);
+      } else {
+        try {
+          const hash = await replace(tx);
+          replacements++;
+          console.log(`[tx] nonce ${tx.nonce} not mined after ${config.txReplaceAfterMs / 1000}s — replaced with ${hash}`);
+        } catch (e: any) {
+          console.log(`[tx] Replacement for nonce ${tx.nonce} failed: ${e.shortMessage ?? e.message}`);
+        }
+      }
+      lastBroadcast = Date.now();
+    }
+
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+/** Value gas at the oracle price, falling back to the last accepted price while the feed is unhealthy */
+async function recordGasCost(receipt: TransactionReceipt, label: string, action: string | null) {
+  const costWei = getGasCostWei(receipt);
+  let quote: PriceQuote | null;
+  let note = "";
+  try {
+    quote = await getEthUsdPrice();
+  } catch (e: any) {
+    quote = getLastEthUsdPrice();
+    note = quote ? " (last known ETH price)" : " (no ETH price, valued at $0)";
+    console.log(`[tx] ${e.message} — gas cost${note}`);
+  }
+  const costMicroUsd = quote ? weiToMicroUsd(costWei, quote) : 0n;
+  const status = receipt.status === "reverted" ? " (reverted)" : "";
+  logCost("gas", costMicroUsd, `${label} gas: ${formatEther(costWei)} ETH${status}${note}`, receipt.transactionHash, action ?? undefined);
+}
+
+function fromJournal(entry: TxJournalEntry): TrackedTx {
+  return {
+    id: entry.id,
+    nonce: entry.nonce,
+    to: entry.to_address as Address,
+    data: (entry.data ?? undefined) as `0x${string}` | undefined,
+    value: BigInt(entry.value),
+    gas: BigInt(entry.gas),
+    fees: {
+      maxFeePerGas: BigInt(entry.max_fee_per_gas),
+      maxPriorityFeePerGas: BigInt(entry.max_priority_fee_per_gas),
+    },
+    label: entry.label,
+    action: entry.action,
+    hashes: JSON.parse(entry.hashes) as Hash[],
+  };
+}
+
+/** Resolve every journal entry left pending by a previous run (crash or restart
+ *  mid-flight) or by a cycle that stopped waiting on it. The last signed tx is
+ *  re-broadcast in case the crash came before it went out; still-unmined txs
+ *  are then waited on and sped up (or cancelled) like fresh ones. */
+export async function reconcilePendingTransactions(): Promise<void> {
+  const pending = getPendingTxJournal();
+  if (pending.length === 0) return;
+  if (config.dryRun) {
+    console.log(`[tx] Dry run — leaving ${pending.length} pending journal entries untouched`);
+    return;
+  }
+
+  console.log(`[tx] Reconciling ${pending.length} pending transaction(s) from the journal`);
+  for (const entry of pending) {
+    const tx = fromJournal(entry);
+    try {
+      if (entry.raw_tx) {
+        // Rejected when already known or mined — either way there's nothing to re-send
+        await broadcast(entry.raw_tx as Hex).catch(() => undefined);
+      }
+      await waitForInclusion(tx);
+    } catch (e: any) {
+      console.error(`[tx] Reconcile nonce ${entry.nonce}: ${e.message}`);
+      logAction("tx_reconcile", `${entry.label} (nonce ${entry.nonce}): ${e.message}`, tx.hashes.at(-1), 0n, "USDC", false);
+    }
+  }
+
+  // Start from the chain's view once the backlog is settled
+  nextNonce = null;
+}
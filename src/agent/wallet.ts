@@ -4,60 +4,67 @@ import {
   http,
   type Address,
   type Chain,
-  type Hash,
   type WalletClient,
   type PublicClient,
+  type TransactionReceipt,
+  type ContractFunctionParameters,
   formatEther,
   formatUnits,
 } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { config } from "../config.js";
-import { appendBuilderCode } from "../actions/builder-codes.js";
 
 export const account = privateKeyToAccount(config.privateKey);
 export const chain = config.chain as Chain;
 
+// HTTP requests sent to the RPC by either client — a Multicall3 batch counts once
+let rpcRequests = 0;
+const countRequest = () => {
+  rpcRequests++;
+};
+
 export const publicClient: PublicClient = createPublicClient({
   chain,
-  transport: http(config.rpcUrl, { timeout: 30_000 }),
+  transport: http(config.rpcUrl, { timeout: 30_000, onFetchRequest: countRequest }),
 });
 
 export const walletClient: WalletClient = createWalletClient({
   account,
   chain,
-  transport: http(config.rpcUrl, { timeout: 30_000 }),
+  transport: http(config.rpcUrl, { timeout: 30_000, onFetchRequest: countRequest }),
 });
 
-export const agentAddress: Address = account.address;
-
-/** Send transaction with ERC-8021 builder code suffix appended to calldata.
- *  Waits for on-chain confirmation and throws if the tx reverts. */
-export async function sendTransaction(tx: {
-  to: Address;
-  data?: `0x${string}`;
-  value?: bigint;
-}): Promise<Hash> {
-  const data = tx.data
-    ? appendBuilderCode(tx.data, config.builderCode)
-    : appendBuilderCode("0x", config.builderCode);
-
-  const hash = await walletClient.sendTransaction({
-    account,
-    chain,
-    to: tx.to,
-    data,
-    value: tx.value ?? 0n,
-  });
-
-  console.log(`[tx] submitted ${hash}`);
+/** RPC requests made since the last call (includes API traffic served in the meantime) */
+export function takeRpcRequestCount(): number {
+  const n = rpcRequests;
+  rpcRequests = 0;
+  return n;
+}
 
-  const receipt = await publicClient.waitForTransactionReceipt({ hash });
-  if (receipt.status === "reverted") {
-    throw new Error(`Transaction ${hash} reverted on-chain`);
+/**
+ * Read many contract calls through Multicall3, `config.multicallChunkSize`
+ * calls per eth_call. Chunks go out one after another so a large batch
+ * doesn't burst past public-RPC rate limits. Any reverted call fails the batch.
+ */
+export async function multicallChunked(contracts: readonly ContractFunctionParameters[]): Promise<unknown[]> {
+  const size = Math.max(1, config.multicallChunkSize);
+  const results: unknown[] = [];
+  for (let i = 0; i < contracts.length; i += size) {
+    // batchSize 0: chunking is by call count here, not viem's byte limit
+    const chunk = await publicClient.multicall({ contracts: contracts.slice(i, i + size), allowFailure: false, batchSize: 0 });
+    results.push(...chunk);
   }
+  return results;
+}
 
-  console.log(`[tx] confirmed ${hash} (block ${receipt.blockNumber})`);
-  return hash;
+export const agentAddress: Address = account.address;
+
+/** Actual fee paid for a mined tx: L2 execution (gasUsed * effectiveGasPrice)
+ *  plus the OP-stack L1 data fee that Base reports on the receipt. */
+export function getGasCostWei(receipt: TransactionReceipt): bigint {
+  const l2Fee = receipt.gasUsed * receipt.effectiveGasPrice;
+  const l1Fee = (receipt as TransactionReceipt & { l1Fee?: bigint | null }).l1Fee ?? 0n;
+  return l2Fee + l1Fee;
 }
 
 const balanceOfAbi = [
@@ -73,38 +80,16 @@ const balanceOfAbi = [
 export async function getBalances() {
   // Always read Proofwell USDC + Aave USDC balances
   // On mainnet these are the same token; on testnet they differ
-  const reads: Promise<bigint>[] = [
-    publicClient.getBalance({ address: agentAddress }),
-    publicClient.readContract({
-      address: config.usdc,
-      abi: balanceOfAbi,
-      functionName: "balanceOf",
-      args: [agentAddress],
-    }) as Promise<bigint>,
-    publicClient.readContract({
-      address: config.aBasUSDC,
-      abi: balanceOfAbi,
-      functionName: "balanceOf",
-      args: [agentAddress],
-    }) as Promise<bigint>,
-  ];
-
-  // If Aave USDC differs from Proofwell USDC, also read it
   const hasSeparateAaveUsdc = config.aaveUsdc !== config.usdc;
-  if (hasSeparateAaveUsdc) {
-    reads.push(
-      publicClient.readContract({
-        address: config.aaveUsdc,
-        abi: balanceOfAbi,
-        functionName: "balanceOf",
-        args: [agentAddress],
-      }) as Promise<bigint>,
-    );
-  }
-
-  const results = await Promise.all(reads);
-  const [ethBalance, usdcBalance, aUsdcBalance] = results;
-  const aaveUsdcBalance = hasSeparateAaveUsdc ? results[3] : usdcBalance;
+  const tokens = [config.usdc, config.aBasUSDC, ...(hasSeparateAaveUsdc ? [config.aaveUsdc] : [])];
+  const [ethBalance, tokenBalances] = await Promise.all([
+    publicClient.getBalance({ address: agentAddress }),
+    multicallChunked(
+      tokens.map(address => ({ address, abi: balanceOfAbi, functionName: "balanceOf", args: [agentAddress] })),
+    ) as Promise<bigint[]>,
+  ]);
+  const [usdcBalance, aUsdcBalance] = tokenBalances;
+  const aaveUsdcBalance = hasSeparateAaveUsdc ? tokenBalances[2] : usdcBalance;
 
   return {
     eth: ethBalance,
@@ -0,0 +1,131 @@
+import { type Request, type Response } from "express";
+import { getAddress, isAddress, isHex, verifyTypedData, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { config } from "../config.js";
+import { account } from "../agent/wallet.js";
+
+/**
+ * EIP-712 signed attestations
+ *
+ * Every attestation the agent sells carries a signature over a typed
+ * `DisciplineAttestation` struct, so whoever paid for it can prove to a
+ * contract or another service that the agent produced it. The signer is
+ * ATTESTATION_SIGNER_KEY when set, otherwise the agent's own key.
+ *
+ * Domain: { name: "Proofwell Attestation", version: "1", chainId } — no
+ * verifyingContract, so any contract on the chain can check it with
+ * ecrecover on the EIP-712 digest. `successRateBps` is the success rate in
+ * basis points; `blockNumber` is the block the stake data was read at or
+ * after; `expiresAt` is unix seconds.
+ */
+
+const signer = config.attestationSignerKey ? privateKeyToAccount(config.attestationSignerKey) : account;
+
+export const attestationSigner: Address = signer.address;
+
+export const ATTESTATION_PRIMARY_TYPE = "DisciplineAttestation";
+
+export const attestationTypes = {
+  DisciplineAttestation: [
+    { name: "wallet", type: "address" },
+    { name: "disciplineScore", type: "uint8" },
+    { name: "successRateBps", type: "uint16" },
+    { name: "blockNumber", type: "uint64" },
+    { name: "expiresAt", type: "uint64" },
+  ],
+} as const;
+
+export function attestationDomain() {
+  return { name: "Proofwell Attestation", version: "1", chainId: config.chain.id } as const;
+}
+
+export interface AttestationClaim {
+  wallet: Address;
+  /** 0–100 */
+  disciplineScore: number;
+  /** 0–10000 */
+  successRateBps: number;
+  blockNumber: bigint;
+  /** Unix seconds */
+  expiresAt: bigint;
+}
+
+/** JSON form of a claim — uint64 fields as decimal strings */
+function serializeClaim(claim: AttestationClaim) {
+  return { ...claim, blockNumber: claim.blockNumber.toString(), expiresAt: claim.expiresAt.toString() };
+}
+
+/** Sign a claim. The result is an eth_signTypedData_v4 payload plus signer and signature. */
+export async function signAttestation(claim: AttestationClaim) {
+  const domain = attestationDomain();
+  const signature = await signer.signTypedData({
+    domain,
+    types: attestationTypes,
+    primaryType: ATTESTATION_PRIMARY_TYPE,
+    message: claim,
+  });
+  return {
+    domain,
+    types: attestationTypes,
+    primaryType: ATTESTATION_PRIMARY_TYPE,
+    message: serializeClaim(claim),
+    signer: attestationSigner,
+    signature,
+  };
+}
+
+function parseClaim(raw: any): AttestationClaim | null {
+  if (!raw || typeof raw !== "object" || typeof raw.wallet !== "string" || !isAddress(raw.wallet)) return null;
+  const score = Number(raw.disciplineScore);
+  const bps = Number(raw.successRateBps);
+  if (!Number.isInteger(score) || score < 0 || score > 100) return null;
+  if (!Number.isInteger(bps) || bps < 0 || bps > 10_000) return null;
+  try {
+    return {
+      wallet: getAddress(raw.wallet),
+      disciplineScore: score,
+      successRateBps: bps,
+      blockNumber: BigInt(raw.blockNumber),
+      expiresAt: BigInt(raw.expiresAt),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /v1/attestation/verify with `{ message, signature }` — the `eip712`
+ * object of a paid attestation works as-is. Free: checks the signature
+ * against the current signer and whether the attestation has expired.
+ */
+export async function verifyAttestationHandler(req: Request, res: Response) {
+  const claim = parseClaim(req.body?.message);
+  const signature = req.body?.signature;
+  if (!claim) {
+    res.status(400).json({ error: "message must be a DisciplineAttestation (wallet, disciplineScore, successRateBps, blockNumber, expiresAt)" });
+    return;
+  }
+  if (typeof signature !== "string" || !isHex(signature)) {
+    res.status(400).json({ error: "signature must be a hex string" });
+    return;
+  }
+
+  const signatureValid = await verifyTypedData({
+    address: attestationSigner,
+    domain: attestationDomain(),
+    types: attestationTypes,
+    primaryType: ATTESTATION_PRIMARY_TYPE,
+    message: claim,
+    signature: signature as Hex,
+  }).catch(() => false);
+  const expired = claim.expiresAt <= BigInt(Math.floor(Date.now() / 1000));
+
+  res.json({
+    valid: signatureValid && !expired,
+    signatureValid,
+    expired,
+    signer: attestationSigner,
+    domain: attestationDomain(),
+    message: serializeClaim(claim),
+  });
+}
@@ -0,0 +1,101 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { type Hex, encodeAbiParameters, numberToHex, toFunctionSelector } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import express from "express";
+import { useTestEnv } from "../test/mock-rpc.js";
+
+// Settlement is only simulated, so the token never sees the authorization used
+const rpc = await useTestEnv({ DRY_RUN: "true" });
+const { config } = await import("../config.js");
+const { agentAddress } = await import("../agent/wallet.js");
+const { getPayments } = await import("../agent/state.js");
+const { paymentTokenDomain, transferAuthorizationTypes } = await import("../actions/eip3009.js");
+const { X402_VERSION } = await import("./x402.js");
+const { paywall } = await import("./paywall.js");
+
+const selectors = {
+  authorizationState: toFunctionSelector("authorizationState(address,bytes32)"),
+  balanceOf: toFunctionSelector("balanceOf(address)"),
+  transferWithAuthorization: toFunctionSelector("transferWithAuthorization(address,address,uint256,uint256,uint256,bytes32,uint8,bytes32,bytes32)"),
+};
+
+rpc
+  .on("eth_call", ([call]: Array<{ data: Hex }>) => {
+    if (call.data.startsWith(selectors.authorizationState)) return encodeAbiParameters([{ type: "bool" }], [false]);
+    if (call.data.startsWith(selectors.balanceOf)) return encodeAbiParameters([{ type: "uint256" }], [10n ** 12n]);
+    if (call.data.startsWith(selectors.transferWithAuthorization)) return "0x";
+    throw new Error("eth_call not mocked");
+  })
+  .on("eth_estimateGas", () => "0x15f90")
+  .on("eth_getTransactionCount", () => "0x0")
+  .on("eth_maxPriorityFeePerGas", () => "0x3b9aca00")
+  .on("eth_getBlockByNumber", () => ({
+    number: "0x10",
+    hash: `0x${"ab".repeat(32)}`,
+    parentHash: `0x${"aa".repeat(32)}`,
+    timestamp: "0x0",
+    baseFeePerGas: "0x3b9aca00",
+    gasLimit: "0x1c9c380",
+    gasUsed: "0x0",
+    transactions: [],
+  }));
+
+const PRICE = 10_000n;
+const payer = privateKeyToAccount(`0x${"22".repeat(32)}`);
+const asset = config.x402.asset;
+
+const app = express();
+app.get("/v1/thing", paywall({ price: PRICE, description: "A thing" }), (_req, res) => {
+  res.json({ thing: "paid for" });
+});
+const server = app.listen(0, "127.0.0.1");
+await new Promise(resolve => server.once("listening", resolve));
+const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/thing`;
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await rpc.close();
+});
+
+/** A signed X-PAYMENT header paying the route's price */
+async function paymentHeader(): Promise<string> {
+  const validBefore = BigInt(Math.floor(Date.now() / 1000)) + 600n;
+  const authorization = { from: payer.address, to: agentAddress, value: PRICE, validAfter: 0n, validBefore, nonce: numberToHex(1, { size: 32 }) };
+  const signature = await payer.signTypedData({
+    domain: paymentTokenDomain(asset),
+    types: transferAuthorizationTypes,
+    primaryType: "TransferWithAuthorization",
+    message: authorization,
+  });
+  const payload = {
+    x402Version: X402_VERSION,
+    scheme: "exact",
+    network: config.x402.network,
+    payload: {
+      signature,
+      authorization: { ...authorization, value: PRICE.toString(), validAfter: "0", validBefore: validBefore.toString() },
+    },
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64");
+}
+
+describe("paywall", () => {
+  it("withholds the response in a dry run, however often the authorization is presented", async () => {
+    const header = await paymentHeader();
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const res = await fetch(url, { headers: { "X-PAYMENT": header } });
+      const body = await res.json();
+      assert.equal(res.status, 503);
+      assert.equal(res.headers.get("X-PAYMENT-RESPONSE"), null);
+      assert.deepEqual(body, { error: "Dry run — payment verified but not settled" });
+    }
+    assert.equal(rpc.callsTo("eth_call").filter(([call]) => call.data.startsWith(selectors.transferWithAuthorization)).length, 2);
+
+    const [p] = getPayments({ limit: 10, offset: 0 }).payments;
+    assert.equal(p.status, "failed");
+    assert.equal(p.txHash, null);
+  });
+});
@@ -0,0 +1,138 @@
+import { type Request, type RequestHandler } from "express";
+import { isAddressEqual, type Address } from "viem";
+import { config, type PaymentAsset } from "../config.js";
+import { agentAddress } from "../agent/wallet.js";
+import { logRevenue } from "../agent/state.js";
+import { DryRunHalt } from "../agent/tx-manager.js";
+import {
+  acceptedAssets,
+  acceptedPayees,
+  paymentRequirements,
+  paymentRequiredBody,
+  verifyPayment,
+  settlePayment,
+  releasePayment,
+  encodePaymentResponse,
+  PaymentInvalid,
+  type VerifiedPayment,
+} from "./x402.js";
+
+/**
+ * x402 paywall middleware
+ *
+ * Sells any route per request:
+ *
+ *   app.get("/v1/cohorts/:week", paywall({ price: 5000n, description: "Cohort stats" }), cohortHandler);
+ *
+ * A request without a valid payment gets the 402 challenge. With one, the
+ * payer is attached as `req.x402` and the handler runs as usual. When it
+ * answers with `res.json` and a success status, the payment is settled
+ * first, revenue is booked under the route and the settlement goes out in
+ * `X-PAYMENT-RESPONSE`. Any other response releases the payment uncharged.
+ * In a dry run nothing is settled, so the body is withheld with a 503.
+ */
+
+export interface PaywallOptions {
+  /** Base units of `asset` */
+  price: bigint;
+  /** Defaults to the network's x402 asset; must be an accepted asset */
+  asset?: PaymentAsset;
+  /** Defaults to the agent; must be the agent or a configured payee */
+  payTo?: Address;
+  /** Shown to the client in the payment requirements */
+  description: string | ((req: Request) => string);
+  /** Revenue source — defaults to "x402 <route>" */
+  revenueSource?: string;
+}
+
+export interface PaidRequest {
+  payer: Address;
+  payment: VerifiedPayment;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the paywall once the payment is verified */
+      x402?: PaidRequest;
+    }
+  }
+}
+
+export function paywall(opts: PaywallOptions): RequestHandler {
+  const asset = opts.asset ?? config.x402.asset;
+  const payTo = opts.payTo ?? agentAddress;
+  // Settlement of anything else would be refused by the policy engine — fail at startup instead
+  if (!acceptedAssets().some(a => isAddressEqual(a.address, asset.address))) {
+    throw new Error(`paywall: ${asset.address} is not an accepted x402 asset (X402_EXTRA_ASSETS)`);
+  }
+  if (!acceptedPayees().some(p => isAddressEqual(p, payTo))) {
+    throw new Error(`paywall: ${payTo} is not the agent or an x402 payee (X402_PAYEES)`);
+  }
+  const terms = { price: opts.price, asset, payTo };
+
+  return async (req, res, next) => {
+    const description = typeof opts.description === "function" ? opts.description(req) : opts.description;
+    const requirements = paymentRequirements(`${req.protocol}://${req.get("host")}${req.originalUrl}`, description, terms);
+    const header = req.header("X-PAYMENT");
+    if (!header) {
+      res.status(402).json(paymentRequiredBody(requirements, "X-PAYMENT header is required"));
+      return;
+    }
+
+    let payment: VerifiedPayment;
+    try {
+      payment = await verifyPayment(header, requirements);
+    } catch (e: any) {
+      if (e instanceof PaymentInvalid) {
+        res.status(402).json(paymentRequiredBody(requirements, e.message));
+        return;
+      }
+      console.error(`[x402] Payment verification error:`, e.message);
+      res.status(503).json({ error: "Payment verification temporarily unavailable" });
+      return;
+    }
+    const payer = payment.authorization.from;
+    const source = opts.revenueSource ?? `x402 ${req.baseUrl}${req.route?.path ?? req.path}`;
+    req.x402 = { payer, payment };
+
+    let answered = false;
+    const json = res.json.bind(res);
+    res.json = body => {
+      if (answered) return json(body);
+      answered = true;
+      if (res.statusCode >= 400) {
+        releasePayment(payment, `route responded ${res.statusCode}`);
+        return json(body);
+      }
+      settlePayment(payment).then(
+        txHash => {
+          logRevenue(source, payment.authorization.value, txHash, `${description} — paid by ${payer}`);
+          res.setHeader("X-PAYMENT-RESPONSE", encodePaymentResponse(txHash, payer));
+          json(body);
+        },
+        (e: any) => {
+          if (e instanceof DryRunHalt) {
+            // Unsettled, the authorization stays claimable — serving the body would give it away for free
+            console.log(`[x402] Dry run — payment from ${payer} for ${source} verified but not settled, response withheld`);
+            res.status(503);
+            json({ error: "Dry run — payment verified but not settled" });
+            return;
+          }
+          console.error(`[x402] Settlement failed for payment from ${payer}:`, e.message);
+          res.status(503);
+          json({ error: "Payment settlement failed, try again" });
+        },
+      );
+      return res;
+    };
+    // Errors and responses that bypass res.json never charge
+    res.on("close", () => {
+      if (answered) return;
+      answered = true;
+      releasePayment(payment, "route responded without a JSON body");
+    });
+
+    next();
+  };
+}
@@ -1,9 +1,12 @@
-import express from "express";
+import express, { type Request, type Response, type NextFunction } from "express";
+import { createHash, timingSafeEqual } from "node:crypto";
 import cors from "cors";
 import rateLimit from "express-rate-limit";
 import { config } from "../config.js";
 import { agentAddress, getBalances } from "../agent/wallet.js";
-import { getAavePosition } from "../actions/aave.js";
+import { getAavePosition, getReserveStatus } from "../actions/aave.js";
+import { getYieldVenues, getVenueWeight } from "../actions/yield-venue.js";
+import { getEthUsdPrice, weiToMicroUsd, formatUsdPrice } from "../actions/price.js";
 import {
   getTotalRevenue,
   getTotalCosts,
@@ -11,13 +14,22 @@ import {
   getRevenueBySource,
   getCostsByCategory,
   getFinancialHistory,
+  getLlmDecisions,
   getState,
+  getVenuePosition,
+  getResolutionCandidates,
+  getPayments,
+  formatAmount,
+  type ResolutionDecision,
+  type PaymentStatus,
 } from "../agent/state.js";
-import { attestationHandler } from "./x402-attestation.js";
-import { formatUnits, formatEther } from "viem";
+import { attestationHandler, attestationPaywall, requireWallet } from "./x402-attestation.js";
+import { verifyAttestationHandler } from "./attestation-signature.js";
+import { stakersHandler, stakesHandler, stakeHandler, upcomingStakesHandler } from "./stakes.js";
+import { formatUnits, formatEther, isAddress } from "viem";
 
 const app = express();
-app.use(cors());
+app.use(cors({ exposedHeaders: ["X-PAYMENT-RESPONSE"] })); // browsers may read the x402 settlement receipt
 app.use(express.json());
 
 const attestationLimiter = rateLimit({
@@ -40,9 +52,14 @@ app.use(globalLimiter);
 
 const startedAt = new Date().toISOString();
 
+/** Revenue / cost ratio — a score, so float precision is fine here */
+function ratio(revenue: bigint, costs: bigint): number {
+  return costs > 0n ? Number(revenue) / Number(costs) : 0;
+}
+
 // Health check
 app.get("/health", (_req, res) => {
-  res.json({ status: "ok", agent: agentAddress, network: config.network });
+  res.json({ status: "ok", agent: agentAddress, network: config.network, dryRun: config.dryRun });
 });
 
 // Agent status
@@ -57,16 +74,20 @@ app.get("/api/status", async (_req, res) => {
     res.json({
       agent: agentAddress,
       network: config.network,
+      dryRun: config.dryRun,
       explorerUrl: config.explorerUrl,
       proofwellContract: config.proofwellContract,
+      // Set while the agent refuses the contract's version() — no stakes are resolved until it's registered
+      proofwellVersionRefused: getState("proofwell_version_refused") || null,
       uptime: {
         cycleCount: parseInt(cycleCount),
         lastCycle,
+        lastCycleRpcCalls: parseInt(getState("last_cycle_rpc_calls") ?? "0"),
         startedAt,
         loopIntervalMs: config.loopIntervalMs,
       },
-      selfSustaining: pnl > 0,
-      selfSustainingScore: totalCosts > 0 ? (totalRevenue / totalCosts) : 0,
+      selfSustaining: pnl > 0n,
+      selfSustainingScore: ratio(totalRevenue, totalCosts),
     });
   } catch (e: any) {
     console.error(`[api] Error:`, e.message);
@@ -80,13 +101,56 @@ app.get("/api/balances", async (_req, res) => {
     const balances = await getBalances();
     const aavePosition = await getAavePosition();
     const totalUsdc = balances.usdc + aavePosition;
+    const tracked = getVenuePosition("aave");
+    // A stale or unreachable feed shouldn't take the whole endpoint down
+    const ethPrice = await getEthUsdPrice().catch((e: Error) => {
+      console.log(`[api] ${e.message}`);
+      return null;
+    });
 
     res.json({
-      eth: { raw: balances.eth.toString(), formatted: balances.ethFormatted },
+      eth: {
+        raw: balances.eth.toString(),
+        formatted: balances.ethFormatted,
+        usd: ethPrice ? formatAmount(weiToMicroUsd(balances.eth, ethPrice)) : null,
+      },
+      ethUsdPrice: ethPrice ? { price: formatUsdPrice(ethPrice), updatedAt: new Date(ethPrice.updatedAt * 1000).toISOString() } : null,
       usdc: { raw: balances.usdc.toString(), formatted: balances.usdcFormatted },
       aUsdc: { raw: aavePosition.toString(), formatted: formatUnits(aavePosition, 6) },
       totalUsdc: { raw: totalUsdc.toString(), formatted: formatUnits(totalUsdc, 6) },
       aavePercent: totalUsdc > 0n ? Number((aavePosition * 100n) / totalUsdc) : 0,
+      aavePrincipal: tracked ? formatAmount(tracked.principal) : null,
+      aaveInterestEarned: tracked ? formatAmount(tracked.totalInterest) : null,
+    });
+  } catch (e: any) {
+    console.error(`[api] Error:`, e.message);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Aave USDC reserve market data + our tracked position
+app.get("/api/aave", async (_req, res) => {
+  try {
+    const [reserve, position] = await Promise.all([getReserveStatus(), getAavePosition()]);
+    const tracked = getVenuePosition("aave");
+
+    res.json({
+      supplyApy: reserve.supplyApy,
+      utilization: reserve.utilization,
+      availableLiquidity: formatAmount(reserve.availableLiquidity),
+      totalSupplied: formatAmount(reserve.totalSupplied),
+      totalBorrowed: formatAmount(reserve.totalBorrowed),
+      supplyCap: reserve.supplyCap > 0n ? formatAmount(reserve.supplyCap) : null,
+      borrowCap: reserve.borrowCap > 0n ? formatAmount(reserve.borrowCap) : null,
+      supplyHeadroom: reserve.supplyHeadroom === null ? null : formatAmount(reserve.supplyHeadroom),
+      active: reserve.active,
+      frozen: reserve.frozen,
+      paused: reserve.paused,
+      position: {
+        balance: formatAmount(position),
+        principal: tracked ? formatAmount(tracked.principal) : null,
+        interestEarned: tracked ? formatAmount(tracked.totalInterest) : null,
+      },
     });
   } catch (e: any) {
     console.error(`[api] Error:`, e.message);
@@ -94,11 +158,41 @@ app.get("/api/balances", async (_req, res) => {
   }
 });
 
+// Every yield venue: live position, APY and health, plus tracked principal/interest
+app.get("/api/venues", async (_req, res) => {
+  try {
+    const venues = await Promise.all(
+      getYieldVenues().map(async venue => {
+        const [position, apy, health] = await Promise.all([venue.position(), venue.apy(), venue.health()]);
+        const tracked = getVenuePosition(venue.id);
+        return {
+          id: venue.id,
+          name: venue.name,
+          weight: getVenueWeight(venue),
+          position: formatAmount(position),
+          apy,
+          depositBlocked: health.depositBlocked,
+          withdrawBlocked: health.withdrawBlocked,
+          maxDeposit: health.maxDeposit === null ? null : formatAmount(health.maxDeposit),
+          maxWithdraw: formatAmount(health.maxWithdraw),
+          details: health.details,
+          principal: tracked ? formatAmount(tracked.principal) : null,
+          interestEarned: tracked ? formatAmount(tracked.totalInterest) : null,
+        };
+      }),
+    );
+    res.json({ venues });
+  } catch (e: any) {
+    console.error(`[api] Error:`, e.message);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Revenue breakdown
 app.get("/api/revenue", (_req, res) => {
   try {
-    const total = getTotalRevenue();
-    const bySource = getRevenueBySource();
+    const total = formatAmount(getTotalRevenue());
+    const bySource = getRevenueBySource().map(r => ({ source: r.source, total: formatAmount(r.total) }));
     res.json({ total, bySource });
   } catch (e: any) {
     console.error(`[api] Error:`, e.message);
@@ -109,8 +203,8 @@ app.get("/api/revenue", (_req, res) => {
 // Cost breakdown
 app.get("/api/costs", (_req, res) => {
   try {
-    const total = getTotalCosts();
-    const byCategory = getCostsByCategory();
+    const total = formatAmount(getTotalCosts());
+    const byCategory = getCostsByCategory().map(c => ({ category: c.category, total: formatAmount(c.total) }));
     res.json({ total, byCategory });
   } catch (e: any) {
     console.error(`[api] Error:`, e.message);
@@ -124,11 +218,11 @@ app.get("/api/pnl", (_req, res) => {
     const revenue = getTotalRevenue();
     const costs = getTotalCosts();
     res.json({
-      revenue,
-      costs,
-      profit: revenue - costs,
+      revenue: formatAmount(revenue),
+      costs: formatAmount(costs),
+      profit: formatAmount(revenue - costs),
       selfSustaining: revenue > costs,
-      ratio: costs > 0 ? revenue / costs : 0,
+      ratio: ratio(revenue, costs),
     });
   } catch (e: any) {
     console.error(`[api] Error:`, e.message);
@@ -140,7 +234,10 @@ app.get("/api/pnl", (_req, res) => {
 app.get("/api/actions", (req, res) => {
   try {
     const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 200, 1), 500);
-    const actions = getRecentActions(limit);
+    const actions = getRecentActions(limit).map(a => ({
+      ...a,
+      amount: a.asset ? formatAmount(BigInt(a.amount), a.asset) : "0",
+    }));
     res.json({ actions });
   } catch (e: any) {
     console.error(`[api] Error:`, e.message);
@@ -148,10 +245,138 @@ app.get("/api/actions", (req, res) => {
   }
 });
 
+// Resolvable stakes as last evaluated by the resolution policy — skipped and deferred ones carry the reason
+app.get("/api/resolutions", (req, res) => {
+  try {
+    const decision = req.query.decision as string | undefined;
+    if (decision !== undefined && !["resolve", "skip", "defer"].includes(decision)) {
+      res.status(400).json({ error: "decision must be resolve, skip or defer" });
+      return;
+    }
+    const usd = (amount: bigint | null) => (amount === null ? null : formatAmount(amount));
+    const candidates = getResolutionCandidates(decision as ResolutionDecision | undefined).map(c => ({
+      user: c.user,
+      stakeId: c.stakeId.toString(),
+      asset: c.asset,
+      amount: formatAmount(c.amount, c.asset),
+      resolvableAt: new Date(Number(c.resolvableAt) * 1000).toISOString(),
+      revenueUsd: usd(c.revenueUsd),
+      gasUsd: usd(c.gasUsd),
+      expectedValueUsd: usd(c.expectedValue),
+      decision: c.decision,
+      reason: c.reason,
+      evaluatedAt: c.evaluatedAt,
+    }));
+    res.json({ policy: config.resolution.policy, candidates });
+  } catch (e: any) {
+    console.error(`[api] Error:`, e.message);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// x402 payment ledger, newest first — failed payments with a txHash were charged and are due a refund
+app.get("/api/payments", (req, res) => {
+  try {
+    const { status, payer } = req.query as Record<string, string | undefined>;
+    if (status !== undefined && !["verified", "settled", "failed", "refunding", "refunded", "review"].includes(status)) {
+      res.status(400).json({ error: "status must be verified, settled, failed, refunding, refunded or review" });
+      return;
+    }
+    if (payer !== undefined && !isAddress(payer)) {
+      res.status(400).json({ error: "Invalid payer address" });
+      return;
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const { total, payments } = getPayments({ status: status as PaymentStatus | undefined, payer, limit, offset });
+    res.json({
+      total,
+      limit,
+      offset,
+      payments: payments.map(p => ({
+        id: p.id,
+        payer: p.payer,
+        nonce: p.nonce,
+        asset: p.asset,
+        amount: formatAmount(p.amount),
+        resource: p.resource,
+        validBefore: new Date(Number(p.validBefore) * 1000).toISOString(),
+        status: p.status,
+        reason: p.statusReason,
+        txHash: p.txHash,
+        refundTxHash: p.refundTxHash,
+        createdAt: p.createdAt,
+        updatedAt: p.updatedAt,
+      })),
+    });
+  } catch (e: any) {
+    console.error(`[api] Error:`, e.message);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Stakes and stakers (from the stake index)
+app.get("/api/stakers", stakersHandler);
+app.get("/api/stakes", stakesHandler);
+app.get("/api/stakes/upcoming", upcomingStakesHandler);
+app.get("/api/stakes/:user/:stakeId", stakeHandler);
+
+/** Admin routes need `Authorization: Bearer <API_ADMIN_TOKEN>`, and are off while it's unset */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!config.adminToken) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  // Compared as digests: timingSafeEqual needs equal lengths
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  const token = req.get("authorization")?.match(/^Bearer (.+)$/)?.[1] ?? "";
+  if (!timingSafeEqual(digest(token), digest(config.adminToken))) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+  next();
+}
+
+function llmDecisionLimit(req: Request): number {
+  return Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
+}
+
+// LLM decision audit trail — what the model recommended vs what the agent did.
+// Prompts and raw responses describe the treasury, so only the admin route returns them.
+app.get("/api/llm-decisions", (req, res) => {
+  try {
+    const decisions = getLlmDecisions(llmDecisionLimit(req)).map(({ prompt: _prompt, response: _response, cost, ...d }) => ({
+      ...d,
+      costUsd: formatAmount(cost),
+    }));
+    res.json({ decisions });
+  } catch (e: any) {
+    console.error(`[api] Error:`, e.message);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/admin/llm-decisions", requireAdmin, (req, res) => {
+  try {
+    const decisions = getLlmDecisions(llmDecisionLimit(req)).map(({ cost, ...d }) => ({
+      ...d,
+      costUsd: formatAmount(cost),
+    }));
+    res.json({ decisions });
+  } catch (e: any) {
+    console.error(`[api] Error:`, e.message);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Financial history for charts
 app.get("/api/history", (_req, res) => {
   try {
-    const history = getFinancialHistory();
+    const history = getFinancialHistory().map(h => ({
+      timestamp: h.timestamp,
+      cumulative_revenue: formatAmount(h.cumulative_revenue),
+      cumulative_costs: formatAmount(h.cumulative_costs),
+    }));
     res.json({ history });
   } catch (e: any) {
     console.error(`[api] Error:`, e.message);
@@ -159,8 +384,9 @@ app.get("/api/history", (_req, res) => {
   }
 });
 
-// x402 attestation (paid endpoint)
-app.get("/v1/attestation/:wallet", attestationLimiter, attestationHandler);
+// x402 attestation (paid endpoint) and its free signature check
+app.get("/v1/attestation/:wallet", attestationLimiter, requireWallet, attestationPaywall, attestationHandler);
+app.post("/v1/attestation/verify", attestationLimiter, verifyAttestationHandler);
 
 // Global error handler — catch anything that slips through
 app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
@@ -172,7 +398,7 @@ export function startApiServer() {
   app.listen(config.port, () => {
     console.log(`[api] Server running on port ${config.port} (${config.network})`);
     console.log(`[api] Dashboard API: http://localhost:${config.port}/api/status`);
-    console.log(`[api] x402 attestation: http://localhost:${config.port}/v1/attestation/:wallet`);
+    console.log(`[api] x402 attestation: http://localhost:${config.port}/v1/attestation/:wallet (verify: POST /v1/attestation/verify)`);
   });
 }
 
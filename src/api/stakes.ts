@@ -0,0 +1,202 @@
+import { type Request, type Response } from "express";
+import { isAddress, getAddress, formatEther, formatUnits } from "viem";
+import {
+  getStake,
+  getCohortInfo,
+  formatStake,
+  getProofwellDeployment,
+  UnsupportedProofwellVersion,
+} from "../actions/proofwell.js";
+import {
+  queryStakes,
+  queryStakers,
+  getScheduledStakes,
+  formatAmount,
+  type StakeView,
+  type StakeStatus,
+  type Asset,
+} from "../agent/state.js";
+import { getExpiryWake } from "../agent/scheduler.js";
+
+/**
+ * Stake and staker views
+ *
+ * Served from the stake index rather than the chain, with the derived
+ * fields support needs to answer "why hasn't my stake been resolved?":
+ * end time, resolvable-at, days remaining, status and the resolution
+ * policy's last decision. Only the single-stake view reads live state.
+ */
+
+const STATUSES: StakeStatus[] = ["active", "in_buffer", "resolvable", "resolved", "settled"];
+
+function iso(unixSeconds: bigint): string {
+  return new Date(Number(unixSeconds) * 1000).toISOString();
+}
+
+function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+function pagination(req: Request, defaultLimit = 50): { limit: number; offset: number } {
+  return {
+    limit: Math.min(Math.max(parseInt(req.query.limit as string) || defaultLimit, 1), 500),
+    offset: Math.max(parseInt(req.query.offset as string) || 0, 0),
+  };
+}
+
+function serializeStake(s: StakeView, secondsPerDay: bigint, now: bigint) {
+  const remaining = s.endTime > now ? s.endTime - now : 0n;
+  return {
+    user: s.user,
+    stakeId: s.stakeId.toString(),
+    asset: s.asset,
+    amount: formatAmount(s.amount, s.asset),
+    goalSeconds: Number(s.goalSeconds),
+    durationDays: Number(s.durationDays),
+    cohortWeek: Number(s.cohortWeek),
+    startTime: iso(s.startTimestamp),
+    endTime: iso(s.endTime),
+    resolvableAt: iso(s.resolvableAt),
+    daysRemaining: Number((remaining + secondsPerDay - 1n) / secondsPerDay),
+    status: s.status,
+    resolution: s.resolution,
+    stakedInTx: s.txHash,
+    stakedAtBlock: Number(s.blockNumber),
+  };
+}
+
+function sendError(res: Response, e: any) {
+  if (e instanceof UnsupportedProofwellVersion) {
+    console.error(`[api] ${e.message}`);
+    res.status(503).json({ error: "Stake data unavailable for this contract version" });
+    return;
+  }
+  console.error(`[api] Error:`, e.message);
+  res.status(500).json({ error: "Internal server error" });
+}
+
+export function stakersHandler(req: Request, res: Response) {
+  try {
+    const { limit, offset } = pagination(req);
+    res.json({ limit, offset, ...queryStakers(limit, offset) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+}
+
+export async function stakesHandler(req: Request, res: Response) {
+  const { user, status, asset, cohortWeek } = req.query as Record<string, string | undefined>;
+  if (user !== undefined && !isAddress(user)) {
+    res.status(400).json({ error: "Invalid user address" });
+    return;
+  }
+  if (status !== undefined && !STATUSES.includes(status as StakeStatus)) {
+    res.status(400).json({ error: `status must be one of ${STATUSES.join(", ")}` });
+    return;
+  }
+  if (asset !== undefined && asset !== "USDC" && asset !== "ETH") {
+    res.status(400).json({ error: "asset must be USDC or ETH" });
+    return;
+  }
+  if (cohortWeek !== undefined && !/^\d+$/.test(cohortWeek)) {
+    res.status(400).json({ error: "cohortWeek must be a non-negative integer" });
+    return;
+  }
+
+  try {
+    const { timing } = await getProofwellDeployment();
+    const { limit, offset } = pagination(req);
+    const now = nowSeconds();
+    const { total, stakes } = queryStakes(
+      {
+        user,
+        status: status as StakeStatus | undefined,
+        asset: asset as Asset | undefined,
+        cohortWeek: cohortWeek !== undefined ? BigInt(cohortWeek) : undefined,
+        limit,
+        offset,
+      },
+      { ...timing, now },
+    );
+    res.json({ total, limit, offset, stakes: stakes.map(s => serializeStake(s, timing.secondsPerDay, now)) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+}
+
+/** One stake from the index, plus its live on-chain state and cohort */
+export async function stakeHandler(req: Request, res: Response) {
+  const user = req.params.user as string;
+  const rawId = req.params.stakeId as string;
+  if (!isAddress(user)) {
+    res.status(400).json({ error: "Invalid user address" });
+    return;
+  }
+  if (!/^\d+$/.test(rawId)) {
+    res.status(400).json({ error: "stakeId must be a non-negative integer" });
+    return;
+  }
+  const stakeId = BigInt(rawId);
+
+  try {
+    const { timing } = await getProofwellDeployment();
+    const now = nowSeconds();
+    const [stake] = queryStakes({ user, stakeId }, { ...timing, now }).stakes;
+    if (!stake) {
+      res.status(404).json({ error: "Stake not indexed" });
+      return;
+    }
+
+    const [chain, cohort] = await Promise.all([
+      getStake(getAddress(user), stakeId).catch(() => null),
+      getCohortInfo(stake.cohortWeek).catch(() => null),
+    ]);
+    res.json({
+      ...serializeStake(stake, timing.secondsPerDay, now),
+      chain: chain && {
+        summary: formatStake(chain),
+        successfulDays: Number(chain.successfulDays),
+        claimed: chain.claimed,
+        amount: formatAmount(chain.amount, chain.isUSDC ? "USDC" : "ETH"),
+      },
+      cohort: cohort && {
+        poolEth: formatEther(cohort.poolETH),
+        poolUsdc: formatUnits(cohort.poolUSDC, 6),
+        remainingWinnersEth: Number(cohort.remainingWinnersETH),
+        remainingWinnersUsdc: Number(cohort.remainingWinnersUSDC),
+        totalStakersEth: Number(cohort.totalStakersETH),
+        totalStakersUsdc: Number(cohort.totalStakersUSDC),
+      },
+    });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+}
+
+/** Stakes that will become resolvable, soonest first (from the expiry schedule) */
+export function upcomingStakesHandler(req: Request, res: Response) {
+  try {
+    const { limit } = pagination(req, 100);
+    const hours = parseFloat(req.query.hours as string);
+    const now = nowSeconds();
+    const until = isFinite(hours) && hours > 0 ? now + BigInt(Math.ceil(hours * 3600)) : undefined;
+
+    const stakes = getScheduledStakes({ from: now, until, limit }).map(s => ({
+      user: s.user,
+      stakeId: s.stakeId.toString(),
+      asset: s.asset,
+      amount: formatAmount(s.amount, s.asset),
+      resolvableAt: iso(s.resolvableAt),
+      inSeconds: Number(s.resolvableAt - now),
+    }));
+    res.json({
+      now: iso(now),
+      nextWake: getExpiryWake()?.toISOString() ?? null,
+      // Already resolvable but not yet resolved — see /api/resolutions for why
+      overdue: getScheduledStakes({ until: now }).length,
+      stakes,
+    });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+}
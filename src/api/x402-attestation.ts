@@ -1,9 +1,19 @@
-import { type Request, type Response } from "express";
-import { type Address, isAddress, formatUnits } from "viem";
-import { getAllStakes, SECONDS_PER_DAY, type StakeInfo } from "../actions/proofwell.js";
-import { logRevenue, getResolvedStakesForWallet } from "../agent/state.js";
+import { type Request, type Response, type NextFunction } from "express";
+import { type Address, isAddress, getAddress, formatUnits, formatEther } from "viem";
+import {
+  getAllStakes,
+  getProofwellDeployment,
+  stakeEndTime,
+  UnsupportedProofwellVersion,
+  type StakeInfo,
+  type ProofwellTiming,
+} from "../actions/proofwell.js";
+import { getResolvedStakesForWallet, formatAmount } from "../agent/state.js";
 import { config } from "../config.js";
+import { getEthUsdPrice, weiToMicroUsd, type PriceQuote } from "../actions/price.js";
 import { publicClient } from "../agent/wallet.js";
+import { paywall } from "./paywall.js";
+import { signAttestation } from "./attestation-signature.js";
 
 /**
  * x402 Attestation Endpoint
@@ -13,77 +23,110 @@ import { publicClient } from "../agent/wallet.js";
  * - What's their success rate across all V3 stakes?
  * - Discipline score (0-100)
  *
- * In production, this is gated by @x402/express middleware
- * charging 0.01 USDC per query. For hackathon demo,
- * we include the x402 payment headers but allow free access
- * with a query param for testing.
+ * Paid per query (`attestationPriceUsdc`) through the x402 paywall, which
+ * settles the payment only once the attestation is ready. The response
+ * carries an EIP-712 signature over the score (`eip712`, see
+ * ./attestation-signature.ts) that anyone can check.
  */
-export async function attestationHandler(req: Request, res: Response) {
-  const wallet = req.params.wallet as Address;
 
-  if (!isAddress(wallet)) {
+/** Reject a malformed wallet before the client is asked to pay */
+export function requireWallet(req: Request, res: Response, next: NextFunction) {
+  if (!isAddress(req.params.wallet as string)) {
     res.status(400).json({ error: "Invalid wallet address" });
     return;
   }
+  next();
+}
 
-  try {
-    const stakes = await getAllStakes(wallet);
-    let attestation = buildAttestation(wallet, stakes);
-
-    // If chain data is zeroed (resolved stakes), enrich from agent DB
-    if (!attestation.isStaking) {
-      const resolved = getResolvedStakesForWallet(wallet);
-      if (resolved.length > 0) {
-        let totalFailed = 0;
-        let totalDuration = 0;
-        let totalForfeited = 0;
-        for (const r of resolved) {
-          const match = r.description.match(/(\d+) failed days/);
-          if (match) totalFailed += parseInt(match[1]);
-          totalDuration += totalFailed > 0 ? totalFailed : 7; // estimate
-          totalForfeited += r.amount_usdc;
-        }
-        const successRate = totalDuration > 0 ? Math.max(1 - totalFailed / (totalDuration + totalFailed), 0) : 0;
-        attestation = {
-          ...attestation,
-          isStaking: true,
-          totalStakes: resolved.length,
-          stakeAmount: `${totalForfeited.toFixed(2)} USDC (forfeited)`,
-          stakeAsset: "USDC",
-          daysCompleted: Math.max(totalDuration - totalFailed, 0),
-          totalDays: totalDuration,
-          successRate: Math.round(successRate * 100) / 100,
-          disciplineScore: Math.round(successRate * 100 * 0.7),
-          isActive: false,
-        };
-      }
-    }
-
-    // Check for x402 payment receipt in header
-    const paymentReceipt = req.headers["x-payment-receipt"];
-    if (paymentReceipt) {
-      logRevenue("x402_attestation", 0.01, undefined, `Attestation query for ${wallet}`);
-    }
+export const attestationPaywall = paywall({
+  price: config.attestationPriceUsdc,
+  description: req => `Proofwell discipline attestation for ${req.params.wallet}`,
+  revenueSource: "x402_attestation",
+});
 
-    // Set x402 payment headers for clients that support it
-    res.setHeader("X-Payment-Required", "true");
-    res.setHeader("X-Payment-Amount", "10000"); // 0.01 USDC in 6 decimals
-    res.setHeader("X-Payment-Currency", config.usdc);
-    res.setHeader("X-Payment-Recipient", config.proofwellContract);
+export async function attestationHandler(req: Request, res: Response) {
+  const wallet = req.params.wallet as Address;
 
-    res.json(attestation);
+  try {
+    const { timing } = await getProofwellDeployment();
+    // Stakes are read at or after this block — it goes into the signed claim
+    const blockNumber = await publicClient.getBlockNumber();
+    const stakes = await getAllStakes(wallet);
+    const ethPrice = await getEthUsdPrice().catch(() => null);
+    const attestation = buildWalletAttestation(wallet, stakes, ethPrice, timing);
+
+    const eip712 = await signAttestation({
+      wallet: getAddress(wallet),
+      disciplineScore: attestation.disciplineScore,
+      successRateBps: Math.round(attestation.successRate * 10_000),
+      blockNumber,
+      expiresAt: BigInt(Math.floor(Date.now() / 1000) + config.attestationTtlSeconds),
+    });
+    res.json({ ...attestation, eip712 });
   } catch (e: any) {
+    if (e instanceof UnsupportedProofwellVersion) {
+      console.error(`[attestation] ${e.message}`);
+      res.status(503).json({ error: "Attestation service unavailable for this contract version" });
+      return;
+    }
     console.error(`[attestation] RPC error for ${wallet}:`, e.message);
     res.status(503).json({ error: "Attestation service temporarily unavailable" });
   }
 }
 
-interface Attestation {
+/**
+ * Attestation for a wallet from its stakes. Resolved stakes are zeroed on
+ * chain, so a wallet with none left is scored from the resolutions the agent
+ * recorded instead.
+ */
+export function buildWalletAttestation(wallet: Address, stakes: StakeInfo[], ethPrice: PriceQuote | null, timing: ProofwellTiming): Attestation {
+  let attestation = buildAttestation(wallet, stakes, ethPrice, timing);
+
+  // If chain data is zeroed (resolved stakes), enrich from agent DB
+  if (!attestation.isStaking) {
+    const resolved = getResolvedStakesForWallet(wallet);
+    if (resolved.length > 0) {
+      let totalFailed = 0;
+      let totalDuration = 0;
+      let totalForfeited = 0n;
+      let totalForfeitedEth = 0n;
+      for (const r of resolved) {
+        const match = r.description.match(/(\d+) failed days/);
+        if (match) totalFailed += parseInt(match[1]);
+        totalDuration += totalFailed > 0 ? totalFailed : 7; // estimate
+        if (r.asset === "USDC") totalForfeited += BigInt(r.amount);
+        else if (r.asset === "ETH") totalForfeitedEth += BigInt(r.amount);
+      }
+      const forfeited = [`${formatAmount(totalForfeited)} USDC`];
+      if (totalForfeitedEth > 0n) forfeited.push(`${formatEther(totalForfeitedEth)} ETH`);
+      const successRate = totalDuration > 0 ? Math.max(1 - totalFailed / (totalDuration + totalFailed), 0) : 0;
+      attestation = {
+        ...attestation,
+        isStaking: true,
+        totalStakes: resolved.length,
+        stakeAmount: `${forfeited.join(" + ")} (forfeited)`,
+        stakeAsset: "USDC",
+        stakeValueUsd: totalForfeitedEth === 0n
+          ? formatAmount(totalForfeited)
+          : ethPrice ? formatAmount(totalForfeited + weiToMicroUsd(totalForfeitedEth, ethPrice)) : null,
+        daysCompleted: Math.max(totalDuration - totalFailed, 0),
+        totalDays: totalDuration,
+        successRate: Math.round(successRate * 100) / 100,
+        disciplineScore: Math.round(successRate * 100 * 0.7),
+        isActive: false,
+      };
+    }
+  }
+  return attestation;
+}
+
+export interface Attestation {
   wallet: Address;
   isStaking: boolean;
   totalStakes: number;
   stakeAmount: string;
   stakeAsset: string;
+  stakeValueUsd: string | null;
   daysCompleted: number;
   totalDays: number;
   successRate: number;
@@ -93,7 +136,7 @@ interface Attestation {
   source: string;
 }
 
-function buildAttestation(wallet: Address, stakes: StakeInfo[]): Attestation {
+function buildAttestation(wallet: Address, stakes: StakeInfo[], ethPrice: PriceQuote | null, timing: ProofwellTiming): Attestation {
   if (stakes.length === 0) return buildEmptyAttestation(wallet);
 
   // Aggregate across all active stakes
@@ -111,17 +154,22 @@ function buildAttestation(wallet: Address, stakes: StakeInfo[]): Attestation {
     if (s.isUSDC) totalAmountUsdc += s.amount;
     else totalAmountEth += s.amount;
 
-    const stakeEnd = s.startTimestamp + s.durationDays * BigInt(SECONDS_PER_DAY);
-    if (!s.claimed && now < stakeEnd) hasActive = true;
+    if (!s.claimed && now < stakeEndTime(s, timing)) hasActive = true;
   }
 
   const successRate = totalDuration > 0 ? Math.min(totalSuccessful / totalDuration, 1) : 0;
   const durationWeight = Math.min(totalDuration / 30, 1);
   const disciplineScore = Math.round(successRate * 100 * (0.5 + 0.5 * durationWeight));
 
-  const amountStr = totalAmountUsdc > 0n
-    ? `${Number(totalAmountUsdc) / 1_000_000} USDC`
-    : `${Number(totalAmountEth) / 1e18} ETH`;
+  const amounts: string[] = [];
+  if (totalAmountUsdc > 0n) amounts.push(`${formatUnits(totalAmountUsdc, 6)} USDC`);
+  if (totalAmountEth > 0n) amounts.push(`${formatEther(totalAmountEth)} ETH`);
+  const amountStr = amounts.join(" + ") || "0";
+
+  // USD value needs the oracle for the ETH part; null if it's unavailable
+  const stakeValueUsd = totalAmountEth === 0n
+    ? formatAmount(totalAmountUsdc)
+    : ethPrice ? formatAmount(totalAmountUsdc + weiToMicroUsd(totalAmountEth, ethPrice)) : null;
 
   return {
     wallet,
@@ -129,6 +177,7 @@ function buildAttestation(wallet: Address, stakes: StakeInfo[]): Attestation {
     totalStakes: stakes.length,
     stakeAmount: amountStr,
     stakeAsset: totalAmountUsdc > 0n ? "USDC" : "ETH",
+    stakeValueUsd,
     daysCompleted: totalSuccessful,
     totalDays: totalDuration,
     successRate: Math.round(successRate * 100) / 100,
@@ -146,6 +195,7 @@ function buildEmptyAttestation(wallet: Address): Attestation {
     totalStakes: 0,
     stakeAmount: "0",
     stakeAsset: "none",
+    stakeValueUsd: "0",
     daysCompleted: 0,
     totalDays: 0,
     successRate: 0,
@@ -0,0 +1,210 @@
+import { describe, it, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  type Hash,
+  type Hex,
+  encodeAbiParameters,
+  encodeEventTopics,
+  keccak256,
+  numberToHex,
+  parseAbi,
+  parseTransaction,
+  toFunctionSelector,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { useTestEnv } from "../test/mock-rpc.js";
+
+const rpc = await useTestEnv();
+const { config } = await import("../config.js");
+const { agentAddress } = await import("../agent/wallet.js");
+const { getPayments } = await import("../agent/state.js");
+const { paymentTokenDomain, transferAuthorizationTypes } = await import("../actions/eip3009.js");
+const { verifyPayment, settlePayment, paymentRequirements, PaymentInvalid, X402_VERSION } = await import("./x402.js");
+
+after(() => rpc.close());
+
+const payer = privateKeyToAccount(`0x${"22".repeat(32)}`);
+const asset = config.x402.asset;
+const PRICE = 10_000n;
+const requirements = paymentRequirements("http://agent/v1/thing", "A thing", { price: PRICE, asset, payTo: agentAddress });
+
+const tokenEvents = parseAbi([
+  "event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+/** The token's view of the world: which authorizations it has consumed */
+const usedNonces = new Set<string>();
+/** Logs the next settlement tx emits, given the nonce it settles */
+let settlementLogs: (nonce: Hex) => Array<{ topics: unknown[]; data: Hex }> = () => [];
+let minedNonce = 0;
+
+const selectors = {
+  authorizationState: toFunctionSelector("authorizationState(address,bytes32)"),
+  balanceOf: toFunctionSelector("balanceOf(address)"),
+  transferWithAuthorization: toFunctionSelector("transferWithAuthorization(address,address,uint256,uint256,uint256,bytes32,uint8,bytes32,bytes32)"),
+};
+const receipts = new Map<Hash, object>();
+
+rpc
+  .on("eth_call", ([call]: Array<{ data: Hex }>) => {
+    if (call.data.startsWith(selectors.authorizationState)) {
+      const nonce = `0x${call.data.slice(-64)}`;
+      return encodeAbiParameters([{ type: "bool" }], [usedNonces.has(nonce)]);
+    }
+    if (call.data.startsWith(selectors.balanceOf)) return encodeAbiParameters([{ type: "uint256" }], [10n ** 12n]);
+    throw new Error("eth_call not mocked");
+  })
+  .on("eth_estimateGas", () => "0x15f90")
+  .on("eth_maxPriorityFeePerGas", () => "0x3b9aca00")
+  .on("eth_getBlockByNumber", () => ({
+    number: "0x10",
+    hash: `0x${"ab".repeat(32)}`,
+    parentHash: `0x${"aa".repeat(32)}`,
+    timestamp: "0x0",
+    baseFeePerGas: "0x3b9aca00",
+    gasLimit: "0x1c9c380",
+    gasUsed: "0x0",
+    transactions: [],
+  }))
+  .on("eth_getTransactionCount", () => numberToHex(minedNonce))
+  .on("eth_sendRawTransaction", ([raw]: Hex[]) => {
+    // Every settlement is mined straight away, with whatever logs the test set up
+    const hash = keccak256(raw);
+    const tx = parseTransaction(raw);
+    assert.ok(tx.data?.startsWith(selectors.transferWithAuthorization));
+    const nonce = `0x${tx.data!.slice(10 + 64 * 5, 10 + 64 * 6)}` as Hex;
+    minedNonce = tx.nonce! + 1;
+    receipts.set(hash, {
+      transactionHash: hash,
+      transactionIndex: "0x0",
+      blockHash: `0x${"ab".repeat(32)}`,
+      blockNumber: "0x10",
+      from: agentAddress,
+      to: tx.to,
+      cumulativeGasUsed: "0x15f90",
+      gasUsed: "0x15f90",
+      effectiveGasPrice: "0x3b9aca00",
+      contractAddress: null,
+      logs: settlementLogs(nonce).map((log, i) => ({
+        ...log,
+        address: asset.address,
+        blockHash: `0x${"ab".repeat(32)}`,
+        blockNumber: "0x10",
+        transactionHash: hash,
+        transactionIndex: "0x0",
+        logIndex: numberToHex(i),
+        removed: false,
+      })),
+      logsBloom: `0x${"00".repeat(256)}`,
+      status: "0x1",
+      type: "0x2",
+    });
+    return hash;
+  })
+  .on("eth_getTransactionReceipt", ([hash]: Hash[]) => receipts.get(hash) ?? null);
+
+/** What the token emits when it really settles the authorization */
+function settles(nonce: Hex) {
+  usedNonces.add(nonce);
+  return [
+    { topics: encodeEventTopics({ abi: tokenEvents, eventName: "AuthorizationUsed", args: { authorizer: payer.address, nonce } }), data: "0x" as Hex },
+    {
+      topics: encodeEventTopics({ abi: tokenEvents, eventName: "Transfer", args: { from: payer.address, to: agentAddress } }),
+      data: encodeAbiParameters([{ type: "uint256" }], [PRICE]),
+    },
+  ];
+}
+
+let nonceCounter = 0;
+
+/** A signed X-PAYMENT header paying `value` */
+async function paymentHeader(value = PRICE, nonce = numberToHex(++nonceCounter, { size: 32 })): Promise<string> {
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const authorization = { from: payer.address, to: agentAddress, value, validAfter: 0n, validBefore: now + 600n, nonce };
+  const signature = await payer.signTypedData({
+    domain: paymentTokenDomain(asset),
+    types: transferAuthorizationTypes,
+    primaryType: "TransferWithAuthorization",
+    message: authorization,
+  });
+  const payload = {
+    x402Version: X402_VERSION,
+    scheme: "exact",
+    network: requirements.network,
+    payload: {
+      signature,
+      authorization: { ...authorization, value: value.toString(), validAfter: "0", validBefore: authorization.validBefore.toString() },
+    },
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64");
+}
+
+function payment(id: number) {
+  return getPayments({ limit: 500, offset: 0 }).payments.find(p => p.id === id)!;
+}
+
+describe("x402 payments", () => {
+  beforeEach(() => {
+    settlementLogs = settles;
+  });
+
+  describe("verifyPayment", () => {
+    it("claims a valid authorization for one request only", async () => {
+      const header = await paymentHeader();
+      const verified = await verifyPayment(header, requirements);
+
+      assert.equal(verified.authorization.from, payer.address);
+      assert.equal(payment(verified.id).status, "verified");
+      await assert.rejects(verifyPayment(header, requirements), new PaymentInvalid("authorization has already been presented"));
+    });
+
+    it("refuses anything but the exact price", async () => {
+      await assert.rejects(verifyPayment(await paymentHeader(PRICE + 1n), requirements), PaymentInvalid);
+      await assert.rejects(verifyPayment(await paymentHeader(PRICE - 1n), requirements), PaymentInvalid);
+    });
+
+    it("refuses an authorization the token has already consumed", async () => {
+      const nonce = numberToHex(++nonceCounter, { size: 32 });
+      usedNonces.add(nonce);
+
+      await assert.rejects(verifyPayment(await paymentHeader(PRICE, nonce), requirements), new PaymentInvalid("authorization nonce has already been used"));
+    });
+  });
+
+  describe("settlePayment", () => {
+    it("marks the payment settled with the settlement tx", async () => {
+      const verified = await verifyPayment(await paymentHeader(), requirements);
+      const txHash = await settlePayment(verified);
+
+      const p = payment(verified.id);
+      assert.equal(p.status, "settled");
+      assert.equal(p.txHash, txHash);
+    });
+
+    it("fails a mismatched receipt uncharged, and re-claimable, while the authorization is unused", async () => {
+      settlementLogs = () => [];
+      const header = await paymentHeader();
+      const verified = await verifyPayment(header, requirements);
+      await assert.rejects(settlePayment(verified), /did not transfer the payment/);
+
+      const p = payment(verified.id);
+      assert.equal(p.status, "failed");
+      assert.equal(p.txHash, null);
+      assert.equal((await verifyPayment(header, requirements)).id, verified.id);
+    });
+
+    it("leaves a mismatched receipt for review once the authorization is used", async () => {
+      // Consumed, but the transfer went somewhere the receipt doesn't show
+      settlementLogs = nonce => settles(nonce).slice(0, 1);
+      const header = await paymentHeader();
+      const verified = await verifyPayment(header, requirements);
+      await assert.rejects(settlePayment(verified), /did not transfer the payment/);
+
+      const p = payment(verified.id);
+      assert.equal(p.status, "review");
+      assert.notEqual(p.txHash, null);
+      await assert.rejects(verifyPayment(header, requirements), PaymentInvalid);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { getAddress, isAddress, isHex, verifyTypedData, type Address, type Hex, type TransactionReceipt } from "viem";
+import { agentAddress } from "../agent/wallet.js";
+import { config, type PaymentAsset } from "../config.js";
+import { getTokenBalance } from "../actions/erc20.js";
+import { claimPayment, updatePayment } from "../agent/state.js";
+import { DryRunHalt } from "../agent/tx-manager.js";
+import {
+  isAuthorizationUsed,
+  paymentTokenDomain,
+  receiptSettles,
+  settleAuthorization,
+  transferAuthorizationTypes,
+  type TransferAuthorization,
+} from "../actions/eip3009.js";
+
+/**
+ * x402 payments — "exact" scheme over EIP-3009
+ *
+ * A request without an `X-PAYMENT` header gets a 402 whose body lists the
+ * payment requirements. A client pays by signing a TransferWithAuthorization
+ * to the agent and resending the request with the signed payload (base64
+ * JSON) in `X-PAYMENT`. The agent verifies it, does the work, settles the
+ * authorization on-chain itself and only then responds, with the settlement
+ * tx in `X-PAYMENT-RESPONSE`.
+ *
+ * Every accepted authorization is claimed in the `payments` ledger, keyed by
+ * payer and nonce, so it can buy one request only — even while its
+ * settlement is still in flight. The agent cycle reconciles unsettled claims
+ * against the token's AuthorizationUsed events (see tracking/x402-payments).
+ */
+
+export const X402_VERSION = 1;
+
+export interface PaymentRequirements {
+  scheme: "exact";
+  network: string;
+  maxAmountRequired: string;
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: Address;
+  maxTimeoutSeconds: number;
+  asset: Address;
+  extra: { name: string; version: string };
+}
+
+export interface PaymentPayload {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: {
+    signature: Hex;
+    authorization: {
+      from: string;
+      to: string;
+      value: string;
+      validAfter: string;
+      validBefore: string;
+      nonce: string;
+    };
+  };
+}
+
+export interface VerifiedPayment {
+  /** Row in the payments ledger */
+  id: number;
+  /** Payment token */
+  asset: Address;
+  authorization: TransferAuthorization;
+  signature: Hex;
+}
+
+/** The payment can't be accepted — answered with a fresh 402 */
+export class PaymentInvalid extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentInvalid";
+  }
+}
+
+export interface PriceTerms {
+  /** Base units of `asset` */
+  price: bigint;
+  asset: PaymentAsset;
+  payTo: Address;
+}
+
+/** Tokens settlement is allowlisted for — see the x402 entries in the policy engine */
+export function acceptedAssets(): PaymentAsset[] {
+  return [config.x402.asset, ...config.x402.extraAssets];
+}
+
+/** Recipients settlement is allowlisted for */
+export function acceptedPayees(): Address[] {
+  return [agentAddress, ...config.x402.payees];
+}
+
+export function paymentRequirements(resource: string, description: string, terms: PriceTerms): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network: config.x402.network,
+    maxAmountRequired: terms.price.toString(),
+    resource,
+    description,
+    mimeType: "application/json",
+    payTo: terms.payTo,
+    maxTimeoutSeconds: config.x402.maxTimeoutSeconds,
+    asset: terms.asset.address,
+    extra: { name: terms.asset.name, version: terms.asset.version },
+  };
+}
+
+/** Body of a 402 response */
+export function paymentRequiredBody(requirements: PaymentRequirements, error: string) {
+  return { x402Version: X402_VERSION, error, accepts: [requirements] };
+}
+
+/** Value for the `X-PAYMENT-RESPONSE` header */
+export function encodePaymentResponse(transaction: string, payer: Address): string {
+  const body = { success: true, transaction, network: config.x402.network, payer };
+  return Buffer.from(JSON.stringify(body)).toString("base64");
+}
+
+function decodePaymentHeader(header: string): PaymentPayload {
+  let payment: unknown;
+  try {
+    payment = JSON.parse(Buffer.from(header, "base64").toString("utf8"));
+  } catch {
+    throw new PaymentInvalid("X-PAYMENT is not base64-encoded JSON");
+  }
+  if (typeof payment !== "object" || !payment) throw new PaymentInvalid("X-PAYMENT is not a payment payload");
+  return payment as PaymentPayload;
+}
+
+function parseAuthorization(raw: PaymentPayload["payload"]["authorization"] | undefined): TransferAuthorization {
+  if (!raw || !isAddress(raw.from) || !isAddress(raw.to) || !isHex(raw.nonce) || raw.nonce.length !== 66) {
+    throw new PaymentInvalid("malformed authorization");
+  }
+  try {
+    return {
+      from: getAddress(raw.from),
+      to: getAddress(raw.to),
+      value: BigInt(raw.value),
+      validAfter: BigInt(raw.validAfter),
+      validBefore: BigInt(raw.validBefore),
+      nonce: raw.nonce,
+    };
+  } catch {
+    throw new PaymentInvalid("malformed authorization amounts");
+  }
+}
+
+/**
+ * Check an `X-PAYMENT` header against the requirements: scheme, network,
+ * asset, recipient, exact amount, validity window, signature, unused nonce and
+ * the payer's balance, then claim the authorization for `requirements.resource`.
+ * Throws PaymentInvalid with the reason.
+ */
+export async function verifyPayment(header: string, requirements: PaymentRequirements): Promise<VerifiedPayment> {
+  const payment = decodePaymentHeader(header);
+  if (payment.x402Version !== X402_VERSION) throw new PaymentInvalid(`unsupported x402Version ${payment.x402Version}`);
+  if (payment.scheme !== requirements.scheme) throw new PaymentInvalid(`unsupported scheme "${payment.scheme}"`);
+  if (payment.network !== requirements.network) throw new PaymentInvalid(`wrong network "${payment.network}"`);
+
+  const authorization = parseAuthorization(payment.payload?.authorization);
+  const signature = payment.payload.signature;
+  if (!isHex(signature)) throw new PaymentInvalid("malformed signature");
+
+  if (authorization.to !== getAddress(requirements.payTo)) throw new PaymentInvalid(`payment must go to ${requirements.payTo}`);
+  // "exact": the whole signed value is settled, so anything but the price would overcharge or underpay
+  if (authorization.value !== BigInt(requirements.maxAmountRequired)) {
+    throw new PaymentInvalid(`payment of ${authorization.value} does not match the price of ${requirements.maxAmountRequired}`);
+  }
+  // The authorization has to outlive the settlement tx's queueing and confirmation
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (authorization.validAfter > now) throw new PaymentInvalid("authorization is not valid yet");
+  if (authorization.validBefore < now + BigInt(config.x402.settlementMarginSeconds)) {
+    throw new PaymentInvalid(`authorization must stay valid for at least ${config.x402.settlementMarginSeconds}s`);
+  }
+
+  // The domain pins the asset: a signature for any other token won't verify
+  const asset: PaymentAsset = { address: requirements.asset, ...requirements.extra };
+  const valid = await verifyTypedData({
+    address: authorization.from,
+    domain: paymentTokenDomain(asset),
+    types: transferAuthorizationTypes,
+    primaryType: "TransferWithAuthorization",
+    message: authorization,
+    signature,
+  }).catch(() => false);
+  if (!valid) throw new PaymentInvalid("signature does not match the authorization");
+
+  const [used, balance] = await Promise.all([
+    isAuthorizationUsed(asset.address, authorization.from, authorization.nonce),
+    getTokenBalance(asset.address, authorization.from),
+  ]);
+  if (used) throw new PaymentInvalid("authorization nonce has already been used");
+  if (balance < authorization.value) throw new PaymentInvalid("payer balance is too low");
+
+  const id = claimPayment({
+    payer: authorization.from,
+    nonce: authorization.nonce,
+    asset: asset.address,
+    amount: authorization.value,
+    resource: requirements.resource,
+    validBefore: authorization.validBefore,
+  });
+  if (id === null) throw new PaymentInvalid("authorization has already been presented");
+
+  return { id, asset: asset.address, authorization, signature };
+}
+
+/**
+ * Settle a verified payment on-chain and mark it settled in the ledger.
+ * Returns the settlement tx hash. On failure the payment is marked failed —
+ * reconciliation catches a settlement that lands anyway. A mined settlement
+ * whose receipt doesn't show the transfer is failed uncharged if the token
+ * says the authorization is still unused, and otherwise left for review.
+ */
+export async function settlePayment({ id, asset, authorization, signature }: VerifiedPayment): Promise<Hex> {
+  let receipt: TransactionReceipt;
+  try {
+    receipt = await settleAuthorization(asset, authorization, signature);
+  } catch (e: any) {
+    updatePayment(id, "failed", { reason: e instanceof DryRunHalt ? "dry run — not settled" : `settlement failed: ${e.shortMessage ?? e.message}` });
+    throw e;
+  }
+  if (!receiptSettles(receipt, asset, authorization)) {
+    // Mined, but the payer's transfer isn't in it. Only a used authorization can have charged them,
+    // and a receipt that charged them some other way is for a person to untangle, not a refund.
+    const used = await isAuthorizationUsed(asset, authorization.from, authorization.nonce).catch(() => null);
+    if (used === false) {
+      updatePayment(id, "failed", { reason: `settlement ${receipt.transactionHash} did not use the authorization` });
+    } else {
+      const state = used ? "used" : "unreadable";
+      updatePayment(id, "review", {
+        reason: `settlement receipt has no matching AuthorizationUsed/Transfer, authorization ${state} — check by hand`,
+        txHash: receipt.transactionHash,
+      });
+    }
+    throw new Error(`Settlement ${receipt.transactionHash} did not transfer the payment`);
+  }
+  updatePayment(id, "settled", { txHash: receipt.transactionHash });
+  return receipt.transactionHash;
+}
+
+/** Give up on a verified payment before settling it — the payer isn't charged and may retry */
+export function releasePayment({ id }: VerifiedPayment, reason: string) {
+  updatePayment(id, "failed", { reason });
+}
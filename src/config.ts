@@ -15,24 +15,55 @@ function optEnv(key: string, fallback = ""): string {
 
 type Network = "base-mainnet" | "base-sepolia";
 
+/** When to resolve expired stakes: every one, or only those worth their gas */
+export type ResolutionPolicy = "always" | "profitable";
+
+/** An EIP-3009 token accepted for x402 payments; name/version are its EIP-712 domain */
+export interface PaymentAsset {
+  address: Address;
+  name: string;
+  version: string;
+}
+
 const network = env("NETWORK", "base-mainnet") as Network;
 
 const addresses = {
   "base-mainnet": {
     proofwell: env("PROOFWELL_CONTRACT", "0x0000000000000000000000000000000000000000") as Address,
+    proofwellDeployBlock: optEnv("PROOFWELL_DEPLOY_BLOCK"),
+    // No public deployment to take defaults from — required once a contract is set
+    proofwellSecondsPerDay: optEnv("PROOFWELL_SECONDS_PER_DAY"),
+    proofwellResolutionBuffer: optEnv("PROOFWELL_RESOLUTION_BUFFER"),
     usdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as Address,
     aaveUsdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as Address, // same on mainnet
     weth: "0x4200000000000000000000000000000000000006" as Address,
     aavePool: "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5" as Address,
     aBasUSDC: "0x4e65fE4DBa92790696d040ac24Aa414708F5c0Ab" as Address,
+    uniswapRouter: env("UNISWAP_ROUTER", "0x2626664c2603336E57B271c5C0b26F421741e481") as Address, // SwapRouter02
+    uniswapQuoter: env("UNISWAP_QUOTER", "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a") as Address, // QuoterV2
+    ethUsdFeed: env("ETH_USD_FEED", "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70") as Address, // Chainlink ETH/USD
+    // x402 payment token — must implement EIP-3009; name/version are its EIP-712 domain
+    x402Asset: env("X402_ASSET", "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913") as Address,
+    x402AssetName: env("X402_ASSET_NAME", "USD Coin"),
+    x402AssetVersion: env("X402_ASSET_VERSION", "2"),
   },
   "base-sepolia": {
     proofwell: env("PROOFWELL_CONTRACT", "0xF45DBE98b014cc8564291B052e8D98Bbe9C7651d") as Address,
+    proofwellDeployBlock: optEnv("PROOFWELL_DEPLOY_BLOCK"),
+    proofwellSecondsPerDay: env("PROOFWELL_SECONDS_PER_DAY", "300"), // demo deployment: 5-minute days
+    proofwellResolutionBuffer: env("PROOFWELL_RESOLUTION_BUFFER", "0"),
     usdc: "0x22b90da5d436a4Aaf5464A540c62DB4aA59854eE" as Address, // MockUSDC
     aaveUsdc: "0xba50Cd2A20f6DA35D788639E581bca8d0B5d4D5f" as Address, // Aave test USDC
     weth: "0x4200000000000000000000000000000000000006" as Address,
     aavePool: "0x8bAB6d1b75f19e9eD9fCe8b9BD338844fF79aE27" as Address,
     aBasUSDC: "0x10F1A9D11CDf50041f3f8cB7191CBE2f31750ACC" as Address,
+    uniswapRouter: env("UNISWAP_ROUTER", "0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4") as Address, // SwapRouter02
+    uniswapQuoter: env("UNISWAP_QUOTER", "0xC5290058841028F1614F3A6F0F5816cAd0df5E27") as Address, // QuoterV2
+    ethUsdFeed: env("ETH_USD_FEED", "0x4aDC67696bA383F43DD60A9e78F2C97Fbbfc7cb1") as Address, // Chainlink ETH/USD
+    // Circle's test USDC — MockUSDC has no EIP-3009
+    x402Asset: env("X402_ASSET", "0x036CbD53842c5426634e7929541eC2318f3dCF7e") as Address,
+    x402AssetName: env("X402_ASSET_NAME", "USDC"),
+    x402AssetVersion: env("X402_ASSET_VERSION", "2"),
   },
 } as const;
 
@@ -46,6 +77,12 @@ const rpcDefaults = {
   "base-sepolia": "https://sepolia.base.org",
 } as const;
 
+// Network names as used in x402 payment requirements
+const x402Networks = {
+  "base-mainnet": "base",
+  "base-sepolia": "base-sepolia",
+} as const;
+
 const explorerUrls = {
   "base-mainnet": "https://basescan.org",
   "base-sepolia": "https://sepolia.basescan.org",
@@ -53,6 +90,75 @@ const explorerUrls = {
 
 const addrs = addresses[network];
 
+// OpenAI-compatible endpoints; LLM_BASE_URL overrides the preset
+const llmPresets: Record<string, string> = {
+  openai: "https://api.openai.com/v1",
+  ollama: "http://localhost:11434/v1",
+  llamacpp: "http://localhost:8080/v1",
+  openrouter: "https://openrouter.ai/api/v1",
+};
+
+/** "id=0xVault,id2=0xVault2" → ERC-4626 vault list */
+function parseVaults(raw: string): Array<{ id: string; address: Address }> {
+  return raw
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [id, address] = entry.split("=").map(part => part.trim());
+      if (!id || !/^0x[0-9a-fA-F]{40}$/.test(address ?? "")) throw new Error(`Invalid ERC4626_VAULTS entry "${entry}"`);
+      if (id === "aave") throw new Error(`ERC4626_VAULTS id "aave" is reserved`);
+      return { id, address: address as Address };
+    });
+}
+
+/** "aave=60,morpho=40" → relative weights per venue id */
+function parseWeights(raw: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const entry of raw.split(",").map(e => e.trim()).filter(Boolean)) {
+    const [id, weight] = entry.split("=").map(part => part.trim());
+    const value = parseFloat(weight);
+    if (!id || !isFinite(value) || value < 0) throw new Error(`Invalid VENUE_WEIGHTS entry "${entry}"`);
+    weights[id] = value;
+  }
+  return weights;
+}
+
+/** "0xToken:Name:version,..." → extra x402 payment assets */
+function parsePaymentAssets(raw: string): PaymentAsset[] {
+  return raw
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [address, name, version] = entry.split(":").map(part => part.trim());
+      if (!/^0x[0-9a-fA-F]{40}$/.test(address) || !name || !version) throw new Error(`Invalid X402_EXTRA_ASSETS entry "${entry}"`);
+      return { address: address as Address, name, version };
+    });
+}
+
+/** "0xA,0xB" → address list */
+function parseAddresses(key: string, raw: string): Address[] {
+  return raw
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(address => {
+      if (!/^0x[0-9a-fA-F]{40}$/.test(address)) throw new Error(`Invalid ${key} address "${address}"`);
+      return address as Address;
+    });
+}
+
+function parseResolutionPolicy(raw: string): ResolutionPolicy {
+  if (raw === "always" || raw === "profitable") return raw;
+  throw new Error(`Invalid RESOLUTION_POLICY "${raw}" (always or profitable)`);
+}
+
+const llmProvider = optEnv("LLM_PROVIDER", "openai");
+const llmApiKey = optEnv("LLM_API_KEY", optEnv("OPENAI_API_KEY"));
+const llmBaseUrl = optEnv("LLM_BASE_URL", llmPresets[llmProvider]);
+if (!llmBaseUrl) throw new Error(`Unknown LLM_PROVIDER "${llmProvider}" — set LLM_BASE_URL`);
+
 export const config = {
   network,
   chain: chains[network],
@@ -63,25 +169,162 @@ export const config = {
 
   // Contracts
   proofwellContract: addrs.proofwell,
+  // First block the indexer backfills from — required once a contract is set
+  proofwellDeployBlock: addrs.proofwellDeployBlock ? BigInt(addrs.proofwellDeployBlock) : null,
+  // Stake timing for contract versions that don't expose it (seconds)
+  proofwellSecondsPerDay: BigInt(addrs.proofwellSecondsPerDay || "0"),
+  proofwellResolutionBuffer: BigInt(addrs.proofwellResolutionBuffer || "0"),
   usdc: addrs.usdc,
   aaveUsdc: addrs.aaveUsdc, // Aave's USDC (differs from proofwell USDC on testnet)
   weth: addrs.weth,
   aavePool: addrs.aavePool,
   aBasUSDC: addrs.aBasUSDC,
+  uniswapRouter: addrs.uniswapRouter,
+  uniswapQuoter: addrs.uniswapQuoter,
+  ethUsdFeed: addrs.ethUsdFeed,
 
   // Thresholds (USDC has 6 decimals)
   idleUsdcThreshold: BigInt(env("IDLE_USDC_THRESHOLD", "10000000")), // 10 USDC
   treasuryWithdrawThreshold: BigInt(env("TREASURY_WITHDRAW_THRESHOLD", "5000000")), // 5 USDC
   lowEthThreshold: BigInt("1000000000000000"), // 0.001 ETH
 
+  // Gas top-up: below lowEthThreshold, swap USDC → ETH (24h cap is the gas_swap policy limit)
+  gasTopUp: {
+    enabled: optEnv("GAS_TOPUP_ENABLED", "true") === "true",
+    amountUsdc: BigInt(env("GAS_TOPUP_AMOUNT_USDC", "5000000")), // 5 USDC per top-up
+    slippageBps: BigInt(env("GAS_TOPUP_SLIPPAGE_BPS", "100")), // 1% below the quote
+    poolFee: parseInt(env("GAS_TOPUP_POOL_FEE", "500")), // USDC/WETH 0.05% pool
+  },
+
+  // Expired-stake resolution — gas per stake is an estimate used to price each candidate
+  resolution: {
+    policy: parseResolutionPolicy(env("RESOLUTION_POLICY", "always")),
+    gasPerStake: BigInt(env("RESOLUTION_GAS_PER_STAKE", "120000")),
+  },
+
+  // ETH/USD feed rounds older than this are rejected as stale
+  priceMaxAgeSeconds: parseInt(env("PRICE_MAX_AGE_SECONDS", "3600")),
+
   // Agent
+  // Dry run: simulate every tx with eth_call instead of broadcasting (DRY_RUN=true or --dry-run)
+  dryRun: optEnv("DRY_RUN") === "true" || process.argv.includes("--dry-run"),
   loopIntervalMs: parseInt(env("LOOP_INTERVAL_MS", "300000")), // 5 min
   llmCallIntervalMs: 3600000, // 1 hour
 
+  // Transaction manager
+  txReplaceAfterMs: parseInt(env("TX_REPLACE_AFTER_MS", "60000")), // resend with higher fees if not mined by then
+  txFeeBumpPercent: BigInt(env("TX_FEE_BUMP_PERCENT", "15")), // nodes require >= 10% to accept a replacement
+  txMaxReplacements: parseInt(env("TX_MAX_REPLACEMENTS", "5")),
+
+  // Yield venues — Aave is built in; ERC-4626 vaults must hold the same USDC as Aave.
+  // Venues without a weight are tracked but never deposited into.
+  erc4626Vaults: parseVaults(optEnv("ERC4626_VAULTS")),
+  venueWeights: parseWeights(optEnv("VENUE_WEIGHTS", "aave=100")),
+
+  // Policy guardrails — amounts in USDC base units (6 decimals)
+  policyLimits: {
+    aave_supply: {
+      perTx: BigInt(env("POLICY_SUPPLY_MAX_PER_TX", "1000000000")), // 1,000 USDC
+      per24h: BigInt(env("POLICY_SUPPLY_MAX_PER_24H", "5000000000")), // 5,000 USDC
+    },
+    aave_withdraw: {
+      perTx: BigInt(env("POLICY_WITHDRAW_MAX_PER_TX", "500000000")), // 500 USDC
+      per24h: BigInt(env("POLICY_WITHDRAW_MAX_PER_24H", "1000000000")), // 1,000 USDC
+    },
+    gas_swap: {
+      perTx: BigInt(env("POLICY_GAS_SWAP_MAX_PER_TX", "10000000")), // 10 USDC
+      per24h: BigInt(env("POLICY_GAS_SWAP_MAX_PER_24H", "20000000")), // 20 USDC
+    },
+    // Across all ERC-4626 vaults combined
+    vault_deposit: {
+      perTx: BigInt(env("POLICY_VAULT_DEPOSIT_MAX_PER_TX", "1000000000")), // 1,000 USDC
+      per24h: BigInt(env("POLICY_VAULT_DEPOSIT_MAX_PER_24H", "5000000000")), // 5,000 USDC
+    },
+    vault_withdraw: {
+      perTx: BigInt(env("POLICY_VAULT_WITHDRAW_MAX_PER_TX", "500000000")), // 500 USDC
+      per24h: BigInt(env("POLICY_VAULT_WITHDRAW_MAX_PER_24H", "1000000000")), // 1,000 USDC
+    },
+    x402_refund: {
+      perTx: BigInt(env("POLICY_X402_REFUND_MAX_PER_TX", "1000000")), // 1 USDC
+      per24h: BigInt(env("POLICY_X402_REFUND_MAX_PER_24H", "10000000")), // 10 USDC
+    },
+    // WETH is in wei — matches what the gas swap caps can produce
+    weth_unwrap: {
+      perTx: BigInt(env("POLICY_WETH_UNWRAP_MAX_PER_TX", "10000000000000000")), // 0.01 ETH
+      per24h: BigInt(env("POLICY_WETH_UNWRAP_MAX_PER_24H", "20000000000000000")), // 0.02 ETH
+      decimals: 18,
+    },
+  } as Record<string, { perTx: bigint; per24h: bigint; decimals?: number }>,
+  circuitBreakerFailures: parseInt(env("CIRCUIT_BREAKER_FAILURES", "3")), // consecutive tx failures before pausing
+  circuitBreakerCooldownMs: parseInt(env("CIRCUIT_BREAKER_COOLDOWN_MS", "3600000")), // 1 hour
+
+  // Stake indexer
+  logChunkSize: BigInt(env("LOG_CHUNK_SIZE", "9900")), // blocks per eth_getLogs, within public RPC limits
+  indexerReorgDepth: BigInt(env("INDEXER_REORG_DEPTH", "64")), // recent blocks checked for the fork point of a reorg
+  indexerConfirmations: BigInt(env("INDEXER_CONFIRMATIONS", "10")), // blocks behind head the index stops at
+  multicallChunkSize: parseInt(env("MULTICALL_CHUNK_SIZE", "100")), // contract reads per Multicall3 eth_call
+
   // API
   port: parseInt(env("PORT", "3001")),
-  openaiApiKey: optEnv("OPENAI_API_KEY"),
+  adminToken: optEnv("API_ADMIN_TOKEN"), // bearer token for /api/admin/*; unset disables those routes
+
+  // LLM (rebalancing decisions) — OpenAI needs a key; a preset for another
+  // provider or a custom LLM_BASE_URL (e.g. a self-hosted server) doesn't
+  llm: {
+    enabled: llmApiKey !== "" || llmProvider !== "openai" || optEnv("LLM_BASE_URL") !== "",
+    provider: llmProvider,
+    baseUrl: llmBaseUrl,
+    model: optEnv("LLM_MODEL", "gpt-4o-mini"),
+    apiKey: llmApiKey,
+    // USD per 1M tokens for models missing from the built-in rate table
+    customPricing: {
+      input: parseFloat(optEnv("LLM_PRICE_INPUT", "0")),
+      output: parseFloat(optEnv("LLM_PRICE_OUTPUT", "0")),
+    },
+  },
+
+  // x402 payments — EIP-3009 authorizations, settled by the agent on-chain
+  x402: {
+    network: x402Networks[network],
+    // Default payment token; routes may charge in an extra asset instead. All must be
+    // 6-decimal USD stablecoins — revenue is booked 1:1 in micro-USDC.
+    asset: { address: addrs.x402Asset, name: addrs.x402AssetName, version: addrs.x402AssetVersion } as PaymentAsset,
+    extraAssets: parsePaymentAssets(optEnv("X402_EXTRA_ASSETS")),
+    // Recipients a route may name besides the agent (e.g. a treasury multisig)
+    payees: parseAddresses("X402_PAYEES", optEnv("X402_PAYEES")),
+    maxTimeoutSeconds: parseInt(env("X402_MAX_TIMEOUT_SECONDS", "300")), // how long a client has to pay after the 402
+    // An authorization must stay valid this long after verification — covers the
+    // tx queue, a fee bump or two and confirmation; must be below maxTimeoutSeconds
+    settlementMarginSeconds: parseInt(env("X402_SETTLEMENT_MARGIN_SECONDS", "120")),
+  },
 
   // x402 attestation pricing (0.01 USDC = 10000 in 6 decimals)
-  attestationPriceUsdc: BigInt("10000"),
+  attestationPriceUsdc: BigInt(env("ATTESTATION_PRICE_USDC", "10000")),
+  // Attestations are EIP-712 signed by this key (the agent's key when unset) and expire after the TTL
+  attestationSignerKey: optEnv("ATTESTATION_SIGNER_KEY") as `0x${string}` | "",
+  attestationTtlSeconds: parseInt(env("ATTESTATION_TTL_SECONDS", "86400")),
+
+  // On-chain discipline attestations through the Ethereum Attestation Service
+  // (OP-stack predeploys on Base; override to point at a local deployment)
+  eas: {
+    enabled: optEnv("EAS_ENABLED") === "true",
+    address: env("EAS_ADDRESS", "0x4200000000000000000000000000000000000021") as Address,
+    schemaRegistry: env("EAS_SCHEMA_REGISTRY", "0x4200000000000000000000000000000000000020") as Address,
+    minScoreChange: parseInt(env("EAS_MIN_SCORE_CHANGE", "10")), // score points before an attestation is replaced
+    maxWritesPerCycle: parseInt(env("EAS_MAX_WRITES_PER_CYCLE", "5")),
+    gasBudgetPer24h: BigInt(env("EAS_GAS_BUDGET_USDC_PER_24H", "1000000")), // micro-USDC of gas across all EAS writes
+    syncIntervalMs: parseInt(env("EAS_SYNC_INTERVAL_MS", "3600000")), // how often stakers are re-scored
+  },
 } as const;
+
+if (config.x402.settlementMarginSeconds >= config.x402.maxTimeoutSeconds) {
+  throw new Error("X402_SETTLEMENT_MARGIN_SECONDS must be below X402_MAX_TIMEOUT_SECONDS — clients sign for maxTimeoutSeconds");
+}
+
+if (config.proofwellContract !== "0x0000000000000000000000000000000000000000" && config.proofwellDeployBlock === null) {
+  throw new Error("PROOFWELL_DEPLOY_BLOCK must be set — the block of PROOFWELL_CONTRACT's creation tx on the explorer");
+}
+
+if (config.proofwellContract !== "0x0000000000000000000000000000000000000000" && (!addrs.proofwellSecondsPerDay || !addrs.proofwellResolutionBuffer)) {
+  throw new Error("PROOFWELL_SECONDS_PER_DAY and PROOFWELL_RESOLUTION_BUFFER must be set — the contract doesn't expose its timing");
+}
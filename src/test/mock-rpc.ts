@@ -0,0 +1,81 @@
+import http from "node:http";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+
+/**
+ * Test harness: a JSON-RPC server the agent's clients talk to in place of a
+ * node. Tests answer the methods they exercise; anything else is an RPC
+ * error, so a test fails loudly on a call it didn't expect.
+ */
+
+export type RpcHandler = (params: any[]) => unknown;
+
+export class MockRpc {
+  readonly calls: Array<{ method: string; params: any[] }> = [];
+  private readonly handlers = new Map<string, RpcHandler>();
+
+  constructor(readonly url: string, private readonly server: http.Server) {}
+
+  on(method: string, handler: RpcHandler): this {
+    this.handlers.set(method, handler);
+    return this;
+  }
+
+  /** Calls made to `method` so far */
+  callsTo(method: string): any[][] {
+    return this.calls.filter(c => c.method === method).map(c => c.params);
+  }
+
+  handle(request: { id: unknown; method: string; params?: any[] }) {
+    const params = request.params ?? [];
+    this.calls.push({ method: request.method, params });
+    const handler = this.handlers.get(request.method);
+    if (!handler) return { jsonrpc: "2.0", id: request.id, error: { code: -32601, message: `${request.method} not mocked` } };
+    try {
+      return { jsonrpc: "2.0", id: request.id, result: handler(params) ?? null };
+    } catch (e: any) {
+      return { jsonrpc: "2.0", id: request.id, error: { code: -32000, message: e.message } };
+    }
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+export async function startMockRpc(): Promise<MockRpc> {
+  let rpc: MockRpc;
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const request = JSON.parse(body);
+      const response = Array.isArray(request) ? request.map(r => rpc.handle(r)) : rpc.handle(request);
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(response));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  rpc = new MockRpc(`http://127.0.0.1:${port}`, server);
+  return rpc;
+}
+
+export const TEST_PRIVATE_KEY = `0x${"11".repeat(32)}` as const;
+
+/**
+ * Point the agent at a fresh mock RPC and an empty agent.db in a temp dir.
+ * Call before the first (dynamic) import of anything that loads config.
+ */
+export async function useTestEnv(vars: Record<string, string> = {}): Promise<MockRpc> {
+  const rpc = await startMockRpc();
+  Object.assign(process.env, {
+    PRIVATE_KEY: TEST_PRIVATE_KEY,
+    DATA_DIR: fs.mkdtempSync(path.join(os.tmpdir(), "proofwell-agent-")),
+    BASE_RPC_URL: rpc.url,
+    ...vars,
+  });
+  return rpc;
+}
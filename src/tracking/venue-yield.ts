@@ -0,0 +1,78 @@
+import { formatUnits } from "viem";
+import { config } from "../config.js";
+import type { YieldVenue } from "../actions/yield-venue.js";
+import { logAction, logRevenue, getVenuePosition, saveVenuePosition } from "../agent/state.js";
+
+/**
+ * Yield accounting by index
+ *
+ * Every venue reports its position as `units × index` (Aave: scaled balance ×
+ * liquidity index; ERC-4626: shares × assets-per-share). Units only move on
+ * deposit/withdraw and the index only grows, so interest earned between two
+ * syncs is exactly the old units valued at the new index minus their value at
+ * the old index. Any change in units is a principal movement, never yield —
+ * no matter when a deposit lands relative to the sync.
+ */
+
+const RAY = 10n ** 27n;
+
+/** Aave's WadRayMath.rayMul — round half up, matching aToken.balanceOf */
+function rayMul(a: bigint, b: bigint): bigint {
+  return (a * b + RAY / 2n) / RAY;
+}
+
+export interface VenueSync {
+  balance: bigint;
+  principal: bigint;
+  interest: bigint;
+}
+
+/**
+ * Bring a venue's position record up to date and book accrued interest as
+ * revenue. Call after every deposit/withdraw with the signed amount moved
+ * (`+` deposit, `-` withdraw) so the principal is exact; unit changes without
+ * a known amount (e.g. a transfer in) are valued at the current index.
+ * In dry-run mode nothing is written.
+ */
+export async function syncVenuePosition(venue: YieldVenue, principalDelta?: bigint): Promise<VenueSync> {
+  const { units, index } = await venue.snapshot();
+  const balance = rayMul(units, index);
+  const prev = getVenuePosition(venue.id);
+
+  if (!prev) {
+    // First sync: whatever is in the venue is treated as principal
+    if (config.dryRun) return { balance, principal: balance, interest: 0n };
+    saveVenuePosition({ venue: venue.id, units, unitIndex: index, principal: balance, totalInterest: 0n });
+    return { balance, principal: balance, interest: 0n };
+  }
+
+  const prevValueNow = rayMul(prev.units, index);
+  let interest = prevValueNow - rayMul(prev.units, prev.unitIndex);
+  let flow = balance - prevValueNow;
+  if (principalDelta !== undefined) {
+    // Interest the moved amount earned between its tx and this read
+    interest += flow - principalDelta;
+    flow = principalDelta;
+  }
+  if (interest < 0n) {
+    // Rounding dust from the venue's own share math — belongs to principal
+    flow += interest;
+    interest = 0n;
+  }
+
+  const principal = prev.principal + flow;
+  if (config.dryRun) return { balance, principal, interest };
+  saveVenuePosition({
+    venue: venue.id,
+    units,
+    unitIndex: index,
+    principal,
+    totalInterest: prev.totalInterest + interest,
+  });
+
+  if (interest > 0n) {
+    logRevenue(`${venue.id}_yield`, interest, undefined, `${venue.name} interest: ${formatUnits(interest, 6)} USDC`);
+    logAction(`${venue.id}_yield`, `Earned ${formatUnits(interest, 6)} USDC yield from ${venue.name}`, undefined, interest);
+  }
+  return { balance, principal, interest };
+}
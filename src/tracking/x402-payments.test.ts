@@ -0,0 +1,114 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { type Address, encodeFunctionData, erc20Abi } from "viem";
+import { useTestEnv } from "../test/mock-rpc.js";
+
+// Refund checks only touch the ledger and the tx journal
+const rpc = await useTestEnv();
+after(() => rpc.close());
+const { config } = await import("../config.js");
+const { claimPayment, updatePayment, beginRefund, insertTxJournal, finalizeTxJournal, getPayments, refundLabel } = await import(
+  "../agent/state.js"
+);
+const { checkPolicy, PolicyViolation } = await import("../agent/policy.js");
+const { reconcileRefund } = await import("./x402-payments.js");
+
+const asset = config.x402.asset.address;
+const payer: Address = "0x00000000000000000000000000000000000000b1";
+let nonce = 0;
+
+/** A payment that charged `payer` without serving them, with its refund started */
+function refunding(amount = 10_000n): number {
+  const id = claimPayment({
+    payer,
+    nonce: `0x${(++nonce).toString(16).padStart(64, "0")}`,
+    asset,
+    amount,
+    resource: "http://agent/v1/thing",
+    validBefore: 2_000_000_000n,
+  })!;
+  updatePayment(id, "failed", { reason: "settled without serving", txHash: `0x${"cc".repeat(32)}` });
+  assert.ok(beginRefund(id));
+  return id;
+}
+
+function payment(id: number) {
+  return getPayments({ limit: 500, offset: 0 }).payments.find(p => p.id === id)!;
+}
+
+function refundTx(amount: bigint, label: string) {
+  return { to: asset, data: encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [payer, amount] }), label };
+}
+
+/** Journal a refund send for payment `id` and finalize it with `status` */
+function journal(id: number, status: "pending" | "confirmed" | "unsent" | "dropped") {
+  const hash = `0x${id.toString(16).padStart(64, "d")}`;
+  const entry = insertTxJournal({
+    nonce: id,
+    to: asset,
+    value: 0n,
+    gas: 50_000n,
+    maxFeePerGas: 1n,
+    maxPriorityFeePerGas: 1n,
+    label: refundLabel(id),
+    action: "x402_refund",
+    hash,
+    rawTx: "0x",
+  });
+  if (status !== "pending") finalizeTxJournal(entry, status, status === "confirmed" ? hash : undefined, status === "confirmed" ? 1n : undefined);
+  return hash;
+}
+
+describe("x402 refunds", () => {
+  describe("policy", () => {
+    it("lets a refund through only under the label of the payment it refunds", () => {
+      const id = refunding();
+      const other = refunding();
+
+      assert.equal(checkPolicy(refundTx(10_000n, refundLabel(id))).action, "x402_refund");
+      // Same payer and amount, but the other payment is no longer refunding
+      updatePayment(other, "refunded");
+      assert.throws(() => checkPolicy(refundTx(10_000n, refundLabel(other))), PolicyViolation);
+    });
+
+    it("refuses a transfer that doesn't match the payment, or names none", () => {
+      const id = refunding();
+
+      assert.throws(() => checkPolicy(refundTx(10_001n, refundLabel(id))), PolicyViolation);
+      assert.throws(() => checkPolicy(refundTx(10_000n, "transfer")), PolicyViolation);
+    });
+  });
+
+  describe("reconcileRefund", () => {
+    it("marks a payment refunded once its refund tx is mined", () => {
+      const id = refunding();
+      const hash = journal(id, "confirmed");
+
+      reconcileRefund(payment(id));
+      assert.equal(payment(id).status, "refunded");
+      assert.equal(payment(id).refundTxHash, hash);
+    });
+
+    it("makes a refund due again when its tx never left the agent", () => {
+      const id = refunding();
+      journal(id, "unsent");
+
+      reconcileRefund(payment(id));
+      assert.equal(payment(id).status, "failed");
+      assert.ok(beginRefund(id));
+    });
+
+    it("keeps a refund in flight, or one it can't account for, refunding", () => {
+      const inFlight = refunding();
+      journal(inFlight, "pending");
+      reconcileRefund(payment(inFlight));
+      assert.equal(payment(inFlight).status, "refunding");
+
+      const dropped = refunding();
+      journal(dropped, "dropped");
+      reconcileRefund(payment(dropped));
+      assert.equal(payment(dropped).status, "refunding");
+      assert.match(payment(dropped).statusReason!, /settle by hand/);
+    });
+  });
+});
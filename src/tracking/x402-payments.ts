@@ -0,0 +1,113 @@
+import { type Address, type Hex } from "viem";
+import { config } from "../config.js";
+import { publicClient } from "../agent/wallet.js";
+import { getAuthorizationStates, findAuthorizationUse } from "../actions/eip3009.js";
+import {
+  logAction,
+  formatAmount,
+  getPaymentsToReconcile,
+  markPaymentsChecked,
+  updatePayment,
+  getRefundsInFlight,
+  getTxJournalByLabel,
+  refundLabel,
+  type PaymentRecord,
+} from "../agent/state.js";
+
+/**
+ * x402 payment reconciliation
+ *
+ * The ledger records what the API believes happened; the payment token's
+ * events record what did. An authorization whose request failed, or whose
+ * request died with the process, can still be consumed on-chain — by a
+ * settlement that landed after the agent gave up on it, or by anyone else
+ * holding the signature. Each cycle the unsettled claims are checked against
+ * `authorizationState`, and used ones are matched to their AuthorizationUsed
+ * log. Those payers were charged without being served: the ledger marks them
+ * failed with the charging tx, which makes a refund due.
+ *
+ * A refund is marked `refunding` before it is sent, under a tx label unique to
+ * the payment, so it is never sent twice: the tx journal later shows whether
+ * it was mined, never left the agent (due again), or can't be told apart.
+ */
+
+// A claim this old without a settlement belongs to a request that never finished
+const STALE_CLAIM_MINUTES = 10;
+
+/** Reconcile unsettled payments. Returns how many turned out to be charged. */
+export async function reconcilePayments(): Promise<number> {
+  const open = getPaymentsToReconcile(STALE_CLAIM_MINUTES);
+  if (open.length === 0) return 0;
+
+  const [used, head] = await Promise.all([
+    getAuthorizationStates(open.map(p => ({ token: p.asset as Address, from: p.payer as Address, nonce: p.nonce as Hex }))),
+    publicClient.getBlockNumber(),
+  ]);
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  // Checked every cycle, so a use since the last check is well within one log range
+  const fromBlock = head > config.logChunkSize ? head - config.logChunkSize : 0n;
+
+  const unused: number[] = [];
+  let charged = 0;
+  for (const [i, p] of open.entries()) {
+    if (!used[i]) {
+      if (p.status === "verified") updatePayment(p.id, "failed", { reason: "request did not complete" });
+      unused.push(p.id);
+      continue;
+    }
+
+    const txHash = await findAuthorizationUse(p.asset as Address, p.payer as Address, p.nonce as Hex, fromBlock);
+    if (!txHash) {
+      console.log(`[payments] Payment ${p.id} from ${p.payer} was used on-chain before block ${fromBlock} — not refunding automatically`);
+      updatePayment(p.id, "failed", { reason: `authorization used on-chain before block ${fromBlock}; settlement tx not found` });
+      // Nothing more to learn — take it out of reconciliation
+      markPaymentsChecked([p.id], p.validBefore + 1n);
+      continue;
+    }
+
+    updatePayment(p.id, "failed", { reason: "settled on-chain without serving the request — refund due", txHash });
+    logAction(
+      "x402_payment_reconciled",
+      `Payment ${p.id} from ${p.payer} for ${p.resource} was settled without being served — refund of ${formatAmount(p.amount)} USDC due`,
+      txHash,
+      p.amount,
+    );
+    charged++;
+  }
+  markPaymentsChecked(unused, now);
+
+  if (charged > 0) console.log(`[payments] ${charged} of ${open.length} unsettled payment(s) were charged on-chain`);
+  return charged;
+}
+
+const UNCERTAIN_REFUND = "refund tx's nonce was taken by a tx outside the journal — check the journal and settle by hand";
+
+/**
+ * Settle a started refund from the tx journal: refunded once its tx was mined,
+ * due again if nothing it sent can have moved funds, otherwise left
+ * `refunding` (logged once) while in flight or unknowable.
+ */
+export function reconcileRefund(p: PaymentRecord): void {
+  const sends = getTxJournalByLabel(refundLabel(p.id));
+  const mined = sends.find(s => s.status === "confirmed");
+  if (mined) {
+    updatePayment(p.id, "refunded", { reason: `refunded in ${mined.final_hash}`, refundTxHash: mined.final_hash! });
+    return;
+  }
+  if (sends.some(s => s.status === "pending")) return;
+
+  // Never broadcast, reverted, or replaced by a mined cancellation — only a dropped one can't be told apart
+  const nothingMoved = sends.every(s => s.status === "unsent" || s.status === "reverted" || s.status === "abandoned");
+  if (nothingMoved) {
+    updatePayment(p.id, "failed", { reason: sends.length > 0 ? "refund did not go through — due again" : (p.statusReason ?? undefined) });
+  } else if (p.statusReason !== UNCERTAIN_REFUND) {
+    updatePayment(p.id, "refunding", { reason: UNCERTAIN_REFUND });
+    const hashes = sends.flatMap(s => JSON.parse(s.hashes) as string[]).join(", ");
+    logAction("x402_refund", `Refund of ${formatAmount(p.amount)} USDC to ${p.payer} for payment ${p.id} may have landed (${hashes}) — not retrying`, undefined, p.amount, "USDC", false);
+  }
+}
+
+/** Reconcile every refund left `refunding` by an earlier cycle or run */
+export function reconcileRefunds(): void {
+  for (const p of getRefundsInFlight()) reconcileRefund(p);
+}